@@ -0,0 +1,36 @@
+import React from 'react';
+import type { Batch } from '@/hooks/useFileAnalysis';
+
+interface BatchSummaryProps {
+  batch: Batch;
+}
+
+const BatchSummary = ({ batch }: BatchSummaryProps) => {
+  const stats = [
+    { label: 'Processed', value: `${batch.processed_count} / ${batch.file_count}` },
+    { label: 'Need review', value: batch.needs_review_count },
+    { label: 'Failed', value: batch.failed_count },
+    { label: 'No data found', value: batch.skipped_count },
+    { label: 'Total consumption', value: `${Number(batch.total_consumption).toFixed(2)} kWh` },
+    { label: 'Total amount', value: `${Number(batch.total_amount).toFixed(2)}€` },
+    { label: 'Average cost per file', value: batch.average_cost === null ? '—' : `${Number(batch.average_cost).toFixed(2)}€` },
+  ];
+
+  return (
+    <div className="bg-accent rounded-lg p-4">
+      <h3 className="font-medium mb-4">
+        {batch.status === 'completed' ? 'Batch summary' : 'Batch in progress'}
+      </h3>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {stats.map(({ label, value }) => (
+          <div key={label} className="bg-background p-3 rounded">
+            <dt className="text-xs text-secondary">{label}</dt>
+            <dd className="text-sm font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default BatchSummary;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+
+export interface FieldProvenance {
+  value: string | number | boolean | null;
+  source: 'url_param' | 'text' | 'ocr' | 'xml' | 'derived' | 'missing';
+  confidence: number;
+  param?: string;
+  raw?: string;
+  page?: number;
+  position?: number;
+}
+
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+interface FieldProvenanceTableProps {
+  invoices: FieldProvenanceMap[];
+}
+
+const sourceLabels: Record<FieldProvenance['source'], string> = {
+  url_param: 'Comparator link',
+  text: 'Bill text',
+  ocr: 'OCR',
+  xml: 'Facturae XML',
+  derived: 'Derived',
+  missing: 'Missing',
+};
+
+function describeOrigin(entry: FieldProvenance) {
+  if (entry.source === 'url_param') return `param ${entry.param}`;
+  if (entry.source === 'text' || entry.source === 'ocr') return `page ${entry.page}`;
+  if (entry.source === 'xml') return entry.param ?? '';
+  if (entry.source === 'derived') return `from ${entry.param}`;
+  return '';
+}
+
+function formatValue(entry: FieldProvenance) {
+  if (entry.value === null) {
+    return entry.raw ? `Unreadable: "${entry.raw}"` : '—';
+  }
+  return String(entry.value);
+}
+
+const FieldProvenanceTable = ({ invoices }: FieldProvenanceTableProps) => {
+  return (
+    <div className="space-y-4">
+      {invoices.map((provenance, index) => (
+        <div key={index} className="bg-accent rounded-lg p-4">
+          <h3 className="font-medium mb-4">
+            {invoices.length > 1 ? `Invoice ${index + 1} fields` : 'Extracted fields'}
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Field</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(provenance).map(([field, entry]) => (
+                <TableRow key={field}>
+                  <TableCell className="font-mono text-xs">{field}</TableCell>
+                  <TableCell>{formatValue(entry)}</TableCell>
+                  <TableCell>
+                    <Badge variant={entry.source === 'missing' ? 'destructive' : 'secondary'}>
+                      {sourceLabels[entry.source]}
+                    </Badge>
+                    <span className="ml-2 text-xs text-secondary">{describeOrigin(entry)}</span>
+                  </TableCell>
+                  <TableCell className="text-right">{Math.round(entry.confidence * 100)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FieldProvenanceTable;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { Badge, type BadgeProps } from './ui/badge';
+import { isFinished, type Analysis } from '@/hooks/useFileAnalysis';
+import { describeProcessingError } from '@/utils/processingErrors';
+
+interface FileStatusListProps {
+  analyses: Analysis[];
+}
+
+const statusLabels: Record<string, { label: string; variant: BadgeProps['variant'] }> = {
+  pending: { label: 'Queued', variant: 'outline' },
+  processing: { label: 'Processing', variant: 'outline' },
+  retrying: { label: 'Retrying', variant: 'outline' },
+  completed: { label: 'Completed', variant: 'default' },
+  needs_review: { label: 'Needs review', variant: 'secondary' },
+  skipped: { label: 'No data found', variant: 'secondary' },
+  unsupported: { label: 'Unsupported', variant: 'destructive' },
+  encrypted: { label: 'Password protected', variant: 'destructive' },
+  error: { label: 'Error', variant: 'destructive' },
+};
+
+const FileStatusList = ({ analyses }: FileStatusListProps) => {
+  return (
+    <div className="bg-accent rounded-lg p-4">
+      <h3 className="font-medium mb-4">File Status</h3>
+      <div className="space-y-2">
+        {analyses.map(analysis => {
+          const { label, variant } = statusLabels[analysis.status] ?? { label: analysis.status, variant: 'outline' };
+
+          return (
+            <div key={analysis.id} className="bg-background p-3 rounded">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <FileText className="h-5 w-5 text-secondary" />
+                  <span className="text-sm truncate max-w-[200px]">{analysis.file_name}</span>
+                </div>
+                <Badge variant={variant}>{label}</Badge>
+              </div>
+              {analysis.error && isFinished(analysis) && (
+                <p className="text-xs text-destructive mt-2">
+                  {describeProcessingError(analysis.error_code, analysis.error)}
+                </p>
+              )}
+              {analysis.duplicate_of && isFinished(analysis) && (
+                <p className="text-xs text-secondary mt-2">
+                  Same bill (supply point, billing period and invoice date) as a file processed earlier
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FileStatusList;
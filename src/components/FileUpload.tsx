@@ -3,17 +3,34 @@ import React, { useCallback, useState, useEffect } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Progress } from './ui/progress';
 import { Button } from './ui/button';
-import { Upload, FileText, X, Download } from 'lucide-react';
-import { useFileAnalysis } from '@/hooks/useFileAnalysis';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Upload, FileText, X, Download, Copy } from 'lucide-react';
+import BatchSummary from './BatchSummary';
+import FieldProvenanceTable, { type FieldProvenanceMap } from './FieldProvenanceTable';
+import FileStatusList from './FileStatusList';
+import { useFileAnalysis, type Analysis } from '@/hooks/useFileAnalysis';
 import { toast } from '@/components/ui/use-toast';
 
 interface FileWithPreview extends File {
   preview?: string;
 }
 
+// Browsers report XML and HEIC under several types, or none at all
+function isSupportedFile(file: File) {
+  return file.type === 'application/pdf' || /\.(xml|jpe?g|png|heic|heif)$/i.test(file.name);
+}
+
 const FileUpload = () => {
   const [files, setFiles] = useState<FileWithPreview[]>([]);
-  const { processing, progress, currentAnalysis, processFiles, downloadResults } = useFileAnalysis();
+  const [password, setPassword] = useState('');
+  // Files already processed before, and those the user wants processed again anyway
+  const [duplicates, setDuplicates] = useState(new Map<File, Analysis>());
+  const [reprocess, setReprocess] = useState(new Set<File>());
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  // Content hashes from the duplicate check, stored with the uploads
+  const [hashes, setHashes] = useState(new Map<File, string>());
+  const { processing, progress, analyses, currentAnalysis, currentBatch, findDuplicates, processFiles, downloadResults, downloadBatchResults, downloadProvenance } = useFileAnalysis();
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 5) {
@@ -25,10 +42,10 @@ const FileUpload = () => {
       return;
     }
 
-    if (acceptedFiles.some(file => file.type !== 'application/pdf')) {
+    if (acceptedFiles.some(file => !isSupportedFile(file))) {
       toast({
         title: "Invalid file type",
-        description: "Please upload only PDF files",
+        description: "Please upload only PDF, Facturae XML or JPEG, PNG and HEIC photos",
         variant: "destructive",
       });
       return;
@@ -39,12 +56,30 @@ const FileUpload = () => {
         preview: URL.createObjectURL(file)
       })
     ));
-  }, []);
+
+    setDuplicates(new Map());
+    setHashes(new Map());
+    setReprocess(new Set());
+    setCheckingDuplicates(true);
+    findDuplicates(acceptedFiles)
+      .then(result => {
+        setDuplicates(result.duplicates);
+        setHashes(result.hashes);
+      })
+      .catch(error => console.error('Duplicate check error:', error))
+      .finally(() => setCheckingDuplicates(false));
+  }, [findDuplicates]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml'],
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/png': ['.png'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
     },
     maxFiles: 5,
   });
@@ -58,6 +93,20 @@ const FileUpload = () => {
     });
   };
 
+  const toggleReprocess = (file: File) => {
+    setReprocess(current => {
+      const next = new Set(current);
+      if (!next.delete(file)) next.add(file);
+      return next;
+    });
+  };
+
+  // Existing results are used unless the user asked to process the file again
+  const handleProcess = () => {
+    const reuse = new Map([...duplicates].filter(([file]) => files.includes(file) && !reprocess.has(file)));
+    processFiles(files, password || undefined, reuse, hashes);
+  };
+
   useEffect(() => {
     return () => {
       files.forEach(file => {
@@ -78,7 +127,7 @@ const FileUpload = () => {
         <input {...getInputProps()} />
         <Upload className="mx-auto h-12 w-12 text-secondary mb-4" />
         <p className="text-lg font-medium">
-          {isDragActive ? 'Drop the files here' : 'Drag & drop PDF files here'}
+          {isDragActive ? 'Drop the files here' : 'Drag & drop PDFs, Facturae XML or photos of bills here'}
         </p>
         <p className="text-sm text-secondary mt-2">
           or click to select files (max 5 files)
@@ -90,23 +139,63 @@ const FileUpload = () => {
           <div className="bg-accent rounded-lg p-4">
             <h3 className="font-medium mb-4">Selected Files ({files.length}/5)</h3>
             <div className="space-y-2">
-              {files.map((file, index) => (
-                <div key={index} className="flex items-center justify-between bg-background p-3 rounded">
-                  <div className="flex items-center space-x-3">
-                    <FileText className="h-5 w-5 text-secondary" />
-                    <span className="text-sm truncate max-w-[200px]">{file.name}</span>
+              {files.map((file, index) => {
+                const duplicate = duplicates.get(file);
+
+                return (
+                  <div key={index} className="bg-background p-3 rounded">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <FileText className="h-5 w-5 text-secondary" />
+                        <span className="text-sm truncate max-w-[200px]">{file.name}</span>
+                      </div>
+                      <button
+                        onClick={() => removeFile(index)}
+                        className="text-secondary hover:text-primary transition-colors"
+                      >
+                        <X className="h-5 w-5" />
+                      </button>
+                    </div>
+                    {duplicate && (
+                      <div className="flex items-center justify-between mt-2 text-xs text-secondary">
+                        <span className="flex items-center space-x-2">
+                          <Copy className="h-4 w-4" />
+                          <span>
+                            Already processed
+                            {duplicate.created_at && ` on ${new Date(duplicate.created_at).toLocaleDateString()}`}
+                            {reprocess.has(file) ? ', it will be processed again' : ', the existing result will be used'}
+                          </span>
+                        </span>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => toggleReprocess(file)}
+                          disabled={processing}
+                        >
+                          {reprocess.has(file) ? 'Use existing result' : 'Process again'}
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  <button
-                    onClick={() => removeFile(index)}
-                    className="text-secondary hover:text-primary transition-colors"
-                  >
-                    <X className="h-5 w-5" />
-                  </button>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="pdf-password">PDF password (optional)</Label>
+            <Input
+              id="pdf-password"
+              type="password"
+              autoComplete="off"
+              placeholder="For bills protected with a password, such as the holder's NIF"
+              value={password}
+              onChange={event => setPassword(event.target.value)}
+              disabled={processing}
+            />
+          </div>
+
           {processing ? (
             <div className="space-y-2 animate-slide-down">
               <div className="flex justify-between text-sm">
@@ -118,11 +207,11 @@ const FileUpload = () => {
           ) : (
             <div className="flex space-x-4 animate-slide-down">
               <Button
-                onClick={() => processFiles(files)}
+                onClick={handleProcess}
                 className="flex-1"
-                disabled={processing}
+                disabled={processing || checkingDuplicates}
               >
-                Process Files
+                {checkingDuplicates ? 'Checking for duplicates...' : 'Process Files'}
               </Button>
               {currentAnalysis?.output_path && (
                 <Button
@@ -134,8 +223,38 @@ const FileUpload = () => {
                   <span>Download Results</span>
                 </Button>
               )}
+              {currentBatch?.status === 'completed' && currentBatch.processed_count > 0 && (
+                <Button
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={downloadBatchResults}
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Download Batch CSV</span>
+                </Button>
+              )}
+              {currentAnalysis?.output_path && (
+                <Button
+                  variant="outline"
+                  className="flex items-center space-x-2"
+                  onClick={downloadProvenance}
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Download Field Sources</span>
+                </Button>
+              )}
             </div>
           )}
+
+          {analyses.length > 0 && <FileStatusList analyses={analyses} />}
+
+          {currentBatch && <BatchSummary batch={currentBatch} />}
+
+          {!processing && Array.isArray(currentAnalysis?.field_provenance) && (
+            <FieldProvenanceTable
+              invoices={currentAnalysis.field_provenance as unknown as FieldProvenanceMap[]}
+            />
+          )}
         </div>
       )}
     </div>
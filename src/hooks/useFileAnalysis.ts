@@ -1,38 +1,292 @@
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { getErrorMessage } from '@/utils/errorHandling';
+import { hashFile } from '@/utils/fileHash';
+import { describeProcessingError } from '@/utils/processingErrors';
 import { toast } from '@/components/ui/use-toast';
+import type { Json, Tables } from '@/integrations/supabase/types';
 
-interface Analysis {
+export type Batch = Tables<'batches'>;
+
+export interface Analysis {
   id: string;
   created_at: string | null;
   input_files: any;
   status: string;
   error: string | null;
+  error_code: string | null;
   file_name: string;
   file_path: string;
   output_path: string | null;
   page_count: number | null;
   total_size: number | null;
   summary_stats: any | null;
+  field_provenance: Json | null;
+  batch_id: string | null;
+  content_hash: string | null;
+  duplicate_of: string | null;
+}
+
+// Only used while the realtime channel is down
+const POLLING_INTERVAL_MS = 2000;
+
+// Statuses process-pdfs leaves a file in once it is done with it
+const FINISHED_STATUSES = ['completed', 'needs_review', 'error', 'skipped', 'unsupported', 'encrypted'];
+
+// Statuses whose results can be offered instead of processing a file again
+const REUSABLE_STATUSES = ['completed', 'needs_review'];
+
+export function isFinished(analysis: Analysis) {
+  return FINISHED_STATUSES.includes(analysis.status);
+}
+
+function describeBatch(batch: Batch) {
+  const parts = [`${batch.processed_count} of ${batch.file_count} files processed`];
+  if (batch.needs_review_count > 0) parts.push(`${batch.needs_review_count} need review`);
+  if (batch.failed_count > 0) parts.push(`${batch.failed_count} failed`);
+  if (batch.skipped_count > 0) parts.push(`${batch.skipped_count} without extractable data`);
+  return `${parts.join(', ')}.\nTotal amount: ${Number(batch.total_amount).toFixed(2)}€`;
 }
 
 export function useFileAnalysis() {
   const [processing, setProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [analyses, setAnalyses] = useState<Analysis[]>([]);
   const [currentAnalysis, setCurrentAnalysis] = useState<Analysis | null>(null);
+  const [currentBatch, setCurrentBatch] = useState<Batch | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  // The batch being watched. Marked stopped before its channel is removed,
+  // because removing a channel reports CLOSED just like a dropped connection
+  const watchRef = useRef<{ stopped: boolean } | null>(null);
+  const pollingRef = useRef<{ batchId: string; timer: ReturnType<typeof setInterval> } | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current.timer);
+      pollingRef.current = null;
+    }
+  }, []);
+
+  const stopWatching = useCallback(() => {
+    if (watchRef.current) {
+      watchRef.current.stopped = true;
+      watchRef.current = null;
+    }
+    stopPolling();
+    const channel = channelRef.current;
+    channelRef.current = null;
+    if (channel) {
+      supabase.removeChannel(channel);
+    }
+  }, [stopPolling]);
+
+  // Stop listening when the component using the hook unmounts
+  useEffect(() => stopWatching, [stopWatching]);
+
+  /**
+   * Follows a batch until it completes. Status changes are pushed over
+   * Supabase Realtime; polling only runs while the channel is disconnected.
+   */
+  const watchBatch = (batchId: string, initialAnalyses: Analysis[]) => {
+    const analysisIds = initialAnalyses.map(a => a.id);
+    let latestAnalyses = initialAnalyses;
+    const watch = { stopped: false };
+    watchRef.current = watch;
+
+    const applyAnalyses = (rows: Analysis[]) => {
+      if (watch.stopped) return;
+      // Keep the files in upload order
+      latestAnalyses = analysisIds.flatMap(id => rows.filter(a => a.id === id));
+      const finishedCount = latestAnalyses.filter(isFinished).length;
+
+      setAnalyses(latestAnalyses);
+      setCurrentAnalysis(latestAnalyses[0] ?? null);
+      setProgress(Math.round(finishedCount / analysisIds.length * 100));
+      console.log(`${finishedCount} of ${analysisIds.length} files finished`);
+    };
+
+    const applyBatch = (dbBatch: Batch) => {
+      if (watch.stopped) return;
+      setCurrentBatch(dbBatch);
+      if (dbBatch.status !== 'completed') return;
+
+      stopWatching();
+      setProgress(100);
+      setProcessing(false);
+
+      const failedAnalysis = latestAnalyses.find(a => a.error);
+      if (dbBatch.processed_count === 0) {
+        toast({
+          title: "Error",
+          description: failedAnalysis
+            ? describeProcessingError(failedAnalysis.error_code, failedAnalysis.error)
+            : describeBatch(dbBatch),
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: dbBatch.needs_review_count > 0 ? "Needs review" : "Processing complete",
+          description: describeBatch(dbBatch),
+        });
+      }
+    };
 
-  const processFiles = async (files: File[]) => {
+    const refresh = async () => {
+      try {
+        const [batchResult, analysesResult] = await Promise.all([
+          supabase
+            .from('batches')
+            .select('*')
+            .eq('id', batchId)
+            .single(),
+          supabase
+            .from('pdf_analysis')
+            .select('*')
+            .in('id', analysisIds)
+        ]);
+        // The batch may have been left while the check was in flight
+        if (watch.stopped) return;
+
+        const error = batchResult.error || analysesResult.error;
+        if (error) {
+          console.error('Status check error:', error);
+          stopWatching();
+          setProcessing(false);
+          toast({
+            title: "Error",
+            description: error.message || 'Failed to check analysis status',
+            variant: "destructive",
+          });
+          return;
+        }
+
+        applyAnalyses(analysesResult.data);
+        applyBatch(batchResult.data);
+      } catch (refreshError) {
+        console.error('Status check error:', refreshError);
+        // Keep watching, the next update or poll may succeed
+      }
+    };
+
+    const startPolling = () => {
+      if (watch.stopped || pollingRef.current?.batchId === batchId) return;
+      // Polling left over from another batch is replaced
+      stopPolling();
+      console.log('Realtime unavailable, polling for batch status...');
+      pollingRef.current = { batchId, timer: setInterval(refresh, POLLING_INTERVAL_MS) };
+    };
+
+    channelRef.current = supabase
+      .channel(`batch-${batchId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'pdf_analysis', filter: `batch_id=eq.${batchId}` },
+        ({ new: row }) => applyAnalyses(latestAnalyses.map(a => a.id === row.id ? row as Analysis : a))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'batches', filter: `id=eq.${batchId}` },
+        ({ new: row }) => applyBatch(row as Batch)
+      )
+      .subscribe(status => {
+        // Removing the channel on purpose also reports CLOSED
+        if (watch.stopped) return;
+        if (status === 'SUBSCRIBED') {
+          stopPolling();
+          // Catch up on anything that changed before the channel was ready
+          refresh();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          startPolling();
+        }
+      });
+  };
+
+  /**
+   * Finds files that were already processed, by the hash of their contents.
+   * Maps each such file to its most recent usable analysis, and returns the
+   * hashes too so that processFiles does not read the files again.
+   */
+  const findDuplicates = async (files: File[]) => {
+    const duplicates = new Map<File, Analysis>();
+    const hashes = new Map(await Promise.all(files.map(async file => [file, await hashFile(file)] as const)));
+
+    const { data, error } = await supabase
+      .from('pdf_analysis')
+      .select('*')
+      .in('content_hash', [...hashes.values()])
+      .in('status', REUSABLE_STATUSES)
+      .order('created_at', { ascending: false });
+
+    // Only a warning, the files can still be processed
+    if (error) {
+      console.error('Duplicate check error:', error);
+      return { duplicates, hashes };
+    }
+
+    files.forEach(file => {
+      const existing = data.find(a => a.content_hash === hashes.get(file));
+      if (existing) duplicates.set(file, existing);
+    });
+    return { duplicates, hashes };
+  };
+
+  /**
+   * Uploads and processes the files. Files mapped in `reuse` are not
+   * uploaded again; their existing analysis is shown instead. `hashes` are
+   * the content hashes findDuplicates computed, files missing from it are
+   * hashed here.
+   */
+  const processFiles = async (
+    files: File[],
+    password?: string,
+    reuse = new Map<File, Analysis>(),
+    hashes = new Map<File, string>()
+  ) => {
     if (files.length === 0) return;
 
+    const newFiles = files.filter(file => !reuse.has(file));
+    if (newFiles.length === 0) {
+      stopWatching();
+      const existing = files.map(file => reuse.get(file)!);
+      setAnalyses(existing);
+      setCurrentAnalysis(existing[0]);
+      setCurrentBatch(null);
+      setProgress(100);
+      toast({
+        title: "Already processed",
+        description: "Showing the existing results instead of processing the files again.",
+      });
+      return;
+    }
+
+    stopWatching();
     setProcessing(true);
     setProgress(0);
+    setAnalyses([]);
 
     try {
       console.log('Starting file processing...');
 
+      // Group this upload so its aggregates can be tracked together
+      const { data: batch, error: batchError } = await supabase
+        .from('batches')
+        .insert({ file_count: newFiles.length })
+        .select()
+        .single();
+
+      if (batchError) {
+        throw new Error(`Failed to create batch: ${batchError.message}`);
+      }
+
+      setCurrentBatch(batch);
+
       const filePromises = files.map(async (file) => {
+        const existing = reuse.get(file);
+        if (existing) return existing;
+
+        const contentHash = hashes.get(file) ?? await hashFile(file);
         const filePath = `${crypto.randomUUID()}-${file.name.replace(/[^\x00-\x7F]/g, '')}`;
 
         // Upload file to storage
@@ -52,7 +306,9 @@ export function useFileAnalysis() {
             file_name: file.name,
             file_path: filePath,
             status: 'pending',
-            total_size: file.size
+            total_size: file.size,
+            batch_id: batch.id,
+            content_hash: contentHash
           })
           .select()
           .single();
@@ -65,13 +321,16 @@ export function useFileAnalysis() {
       });
 
       const analysisResults = await Promise.all(filePromises);
-      const firstAnalysis = analysisResults[0];
-      setCurrentAnalysis(firstAnalysis);
+      // Reused analyses belong to earlier batches and are not processed again
+      const analysisIds = analysisResults.filter(a => a.batch_id === batch.id).map(a => a.id);
+      setAnalyses(analysisResults);
+      setCurrentAnalysis(analysisResults[0]);
 
       console.log('Files uploaded, calling process-pdfs function...');
 
+      // Only sent with this request: process-pdfs keeps it in memory and never stores it
       const { data: functionData, error: functionError } = await supabase.functions.invoke('process-pdfs', {
-        body: { analysisIds: analysisResults.map(a => a.id) }
+        body: password ? { analysisIds, password } : { analysisIds }
       });
 
       if (functionError) {
@@ -87,59 +346,7 @@ export function useFileAnalysis() {
 
       console.log('Edge function response:', functionData);
 
-      const pollingInterval = setInterval(async () => {
-        try {
-          console.log('Polling for analysis status...');
-          const { data: dbAnalysis, error } = await supabase
-            .from('pdf_analysis')
-            .select('*')
-            .eq('id', firstAnalysis.id)
-            .single();
-
-          if (error) {
-            console.error('Polling error:', error);
-            clearInterval(pollingInterval);
-            setProcessing(false);
-            toast({
-              title: "Error",
-              description: error.message || 'Failed to check analysis status',
-              variant: "destructive",
-            });
-            return;
-          }
-
-          if (dbAnalysis) {
-            console.log('Analysis status:', dbAnalysis.status);
-            setCurrentAnalysis(dbAnalysis);
-
-            if (dbAnalysis.status === 'completed') {
-              clearInterval(pollingInterval);
-              setProgress(100);
-              setProcessing(false);
-              toast({
-                title: "Processing complete",
-                description: `Successfully processed ${dbAnalysis.page_count || 0} pages.\nTotal size: ${(dbAnalysis.total_size / 1024 / 1024).toFixed(2)} MB`,
-              });
-            } else if (dbAnalysis.status === 'error') {
-              clearInterval(pollingInterval);
-              setProcessing(false);
-              toast({
-                title: "Error",
-                description: dbAnalysis.error || 'Processing failed',
-                variant: "destructive",
-              });
-            } else {
-              setProgress(50);
-            }
-          }
-        } catch (pollingError) {
-          console.error('Polling iteration error:', pollingError);
-          // Don't clear interval here, let it retry
-        }
-      }, 2000);
-
-      // Cleanup function
-      return () => clearInterval(pollingInterval);
+      watchBatch(batch.id, analysisResults);
 
     } catch (error) {
       console.error('Top-level error:', error);
@@ -152,14 +359,12 @@ export function useFileAnalysis() {
     }
   };
 
-  const downloadResults = async () => {
-    if (!currentAnalysis?.output_path) return;
-
+  const downloadOutput = async (outputPath: string, fileName: string) => {
     try {
       console.log('Starting download...');
       const { data, error } = await supabase.storage
         .from('outputs')
-        .download(currentAnalysis.output_path);
+        .download(outputPath);
 
       if (error) {
         console.error('Download error:', error);
@@ -174,7 +379,7 @@ export function useFileAnalysis() {
       const url = URL.createObjectURL(data);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${currentAnalysis.file_name}-analysis.csv`;
+      a.download = fileName;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -194,11 +399,36 @@ export function useFileAnalysis() {
     }
   };
 
+  const downloadResults = async () => {
+    if (!currentAnalysis?.output_path) return;
+
+    await downloadOutput(currentAnalysis.output_path, `${currentAnalysis.file_name}-analysis.csv`);
+  };
+
+  // Written next to the results CSV by process-pdfs
+  const downloadProvenance = async () => {
+    if (!currentAnalysis?.output_path) return;
+
+    await downloadOutput(`${currentAnalysis.id}/field_provenance.csv`, `${currentAnalysis.file_name}-field-sources.csv`);
+  };
+
+  // Written by process-pdfs once every file in the batch has finished
+  const downloadBatchResults = async () => {
+    if (!currentBatch) return;
+
+    await downloadOutput(`batches/${currentBatch.id}/invoices.csv`, `batch-${currentBatch.id}-invoices.csv`);
+  };
+
   return {
     processing,
     progress,
+    analyses,
     currentAnalysis,
+    currentBatch,
+    findDuplicates,
     processFiles,
-    downloadResults
+    downloadResults,
+    downloadBatchResults,
+    downloadProvenance
   };
 }
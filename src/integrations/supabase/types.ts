@@ -9,57 +9,447 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      analysis_revisions: {
+        Row: {
+          analysis_id: string
+          created_at: string | null
+          document_type: string | null
+          error: string | null
+          error_code: string | null
+          extractor_name: string | null
+          extractor_version: string | null
+          field_provenance: Json | null
+          id: string
+          invoice_count: number | null
+          invoices: Json
+          pipeline_version: string | null
+          status: string
+          summary_stats: Json | null
+          validation_results: Json | null
+        }
+        Insert: {
+          analysis_id: string
+          created_at?: string | null
+          document_type?: string | null
+          error?: string | null
+          error_code?: string | null
+          extractor_name?: string | null
+          extractor_version?: string | null
+          field_provenance?: Json | null
+          id?: string
+          invoice_count?: number | null
+          invoices?: Json
+          pipeline_version?: string | null
+          status: string
+          summary_stats?: Json | null
+          validation_results?: Json | null
+        }
+        Update: {
+          analysis_id?: string
+          created_at?: string | null
+          document_type?: string | null
+          error?: string | null
+          error_code?: string | null
+          extractor_name?: string | null
+          extractor_version?: string | null
+          field_provenance?: Json | null
+          id?: string
+          invoice_count?: number | null
+          invoices?: Json
+          pipeline_version?: string | null
+          status?: string
+          summary_stats?: Json | null
+          validation_results?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_revisions_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batches: {
+        Row: {
+          average_cost: number | null
+          completed_at: string | null
+          created_at: string | null
+          failed_count: number
+          file_count: number
+          id: string
+          needs_review_count: number
+          processed_count: number
+          skipped_count: number
+          status: string
+          total_amount: number
+          total_consumption: number
+          updated_at: string | null
+        }
+        Insert: {
+          average_cost?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          failed_count?: number
+          file_count?: number
+          id?: string
+          needs_review_count?: number
+          processed_count?: number
+          skipped_count?: number
+          status?: string
+          total_amount?: number
+          total_consumption?: number
+          updated_at?: string | null
+        }
+        Update: {
+          average_cost?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          failed_count?: number
+          file_count?: number
+          id?: string
+          needs_review_count?: number
+          processed_count?: number
+          skipped_count?: number
+          status?: string
+          total_amount?: number
+          total_consumption?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      extracted_invoices: {
+        Row: {
+          analysis_id: string
+          autonomous_community: string | null
+          billing_end_date: string | null
+          billing_start_date: string | null
+          climate_zone: string | null
+          comparator_params: Json | null
+          created_at: string | null
+          cups: string | null
+          cups_valid: boolean | null
+          distributor_code: string | null
+          distributor_name: string | null
+          document_type: string
+          extraction_source: string
+          extractor_name: string
+          extractor_version: string
+          field_provenance: Json | null
+          id: string
+          invoice_date: string | null
+          invoice_index: number
+          page_end: number
+          page_start: number
+          province: string | null
+          results: Json
+          summary_stats: Json | null
+          tax_regime: string | null
+          unknown_comparator_params: string[] | null
+          validation_results: Json | null
+        }
+        Insert: {
+          analysis_id: string
+          autonomous_community?: string | null
+          billing_end_date?: string | null
+          billing_start_date?: string | null
+          climate_zone?: string | null
+          comparator_params?: Json | null
+          created_at?: string | null
+          cups?: string | null
+          cups_valid?: boolean | null
+          distributor_code?: string | null
+          distributor_name?: string | null
+          document_type: string
+          extraction_source: string
+          extractor_name: string
+          extractor_version: string
+          field_provenance?: Json | null
+          id?: string
+          invoice_date?: string | null
+          invoice_index: number
+          page_end: number
+          page_start: number
+          province?: string | null
+          results: Json
+          summary_stats?: Json | null
+          tax_regime?: string | null
+          unknown_comparator_params?: string[] | null
+          validation_results?: Json | null
+        }
+        Update: {
+          analysis_id?: string
+          autonomous_community?: string | null
+          billing_end_date?: string | null
+          billing_start_date?: string | null
+          climate_zone?: string | null
+          comparator_params?: Json | null
+          created_at?: string | null
+          cups?: string | null
+          cups_valid?: boolean | null
+          distributor_code?: string | null
+          distributor_name?: string | null
+          document_type?: string
+          extraction_source?: string
+          extractor_name?: string
+          extractor_version?: string
+          field_provenance?: Json | null
+          id?: string
+          invoice_date?: string | null
+          invoice_index?: number
+          page_end?: number
+          page_start?: number
+          province?: string | null
+          results?: Json
+          summary_stats?: Json | null
+          tax_regime?: string | null
+          unknown_comparator_params?: string[] | null
+          validation_results?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extracted_invoices_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pdf_analysis: {
         Row: {
+          batch_id: string | null
+          comparator_params: Json | null
+          content_hash: string | null
           created_at: string | null
+          document_type: string | null
+          duplicate_of: string | null
           error: string | null
+          error_code: string | null
+          extraction_source: string | null
+          extractor_name: string | null
+          extractor_version: string | null
+          field_provenance: Json | null
           file_name: string | null
           file_path: string | null
           id: string
           input_files: Json
+          invoice_count: number | null
           output_path: string | null
           page_count: number | null
+          pipeline_version: string | null
           status: string
           summary_stats: Json | null
           total_size: number | null
           updated_at: string | null
+          validation_results: Json | null
         }
         Insert: {
+          batch_id?: string | null
+          comparator_params?: Json | null
+          content_hash?: string | null
           created_at?: string | null
+          document_type?: string | null
+          duplicate_of?: string | null
           error?: string | null
+          error_code?: string | null
+          extraction_source?: string | null
+          extractor_name?: string | null
+          extractor_version?: string | null
+          field_provenance?: Json | null
           file_name?: string | null
           file_path?: string | null
           id?: string
           input_files: Json
+          invoice_count?: number | null
           output_path?: string | null
           page_count?: number | null
+          pipeline_version?: string | null
           status?: string
           summary_stats?: Json | null
           total_size?: number | null
           updated_at?: string | null
+          validation_results?: Json | null
         }
         Update: {
+          batch_id?: string | null
+          comparator_params?: Json | null
+          content_hash?: string | null
           created_at?: string | null
+          document_type?: string | null
+          duplicate_of?: string | null
           error?: string | null
+          error_code?: string | null
+          extraction_source?: string | null
+          extractor_name?: string | null
+          extractor_version?: string | null
+          field_provenance?: Json | null
           file_name?: string | null
           file_path?: string | null
           id?: string
           input_files?: Json
+          invoice_count?: number | null
           output_path?: string | null
           page_count?: number | null
+          pipeline_version?: string | null
           status?: string
           summary_stats?: Json | null
           total_size?: number | null
           updated_at?: string | null
+          validation_results?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pdf_analysis_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pdf_analysis_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "pdf_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          analysis_id: string
+          attempts: number
+          created_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          last_error_code: string | null
+          lease_expires_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          reserved_by: string | null
+          reserved_until: string | null
+          run_after: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          analysis_id: string
+          attempts?: number
+          created_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          lease_expires_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          reserved_by?: string | null
+          reserved_until?: string | null
+          run_after?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          analysis_id?: string
+          attempts?: number
+          created_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          last_error_code?: string | null
+          lease_expires_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          reserved_by?: string | null
+          reserved_until?: string | null
+          run_after?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      analysis_revision_diffs: {
+        Row: {
+          analysis_id: string | null
+          changed: boolean | null
+          current_invoice_count: number | null
+          current_pipeline_version: string | null
+          current_status: string | null
+          current_summary_stats: Json | null
+          file_name: string | null
+          previous_invoice_count: number | null
+          previous_pipeline_version: string | null
+          previous_status: string | null
+          previous_summary_stats: Json | null
+          reprocessed_at: string | null
+          revision_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_revisions_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "pdf_analysis"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      new_comparator_params: {
+        Row: {
+          analysis_count: number | null
+          document_type: string | null
+          example_value: string | null
+          first_seen: string | null
+          invoice_count: number | null
+          last_seen: string | null
+          param: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_processing_jobs: {
+        Args: {
+          p_worker_id: string
+          p_limit?: number
+          p_lease_seconds?: number
+          p_analysis_ids?: string[]
+        }
+        Returns: Database["public"]["Tables"]["processing_jobs"]["Row"][]
+      }
+      enqueue_processing_jobs: {
+        Args: {
+          p_analysis_ids: string[]
+          p_reserved_by?: string
+          p_reserved_seconds?: number
+        }
+        Returns: string[]
+      }
+      refresh_batch_stats: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Database["public"]["Tables"]["batches"]["Row"]
+      }
+      reprocess_analyses: {
+        Args: {
+          p_analysis_ids?: string[]
+          p_skip_version?: string
+        }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
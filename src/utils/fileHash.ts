@@ -0,0 +1,5 @@
+// Hex SHA-256 of the file contents, the same bytes that are uploaded
+export async function hashFile(file: File) {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
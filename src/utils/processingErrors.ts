@@ -0,0 +1,24 @@
+// Error codes set by process-pdfs in pdf_analysis.error_code
+export type ProcessingErrorCode =
+  | 'NO_COMPARATOR_LINK'
+  | 'DOWNLOAD_FAILED'
+  | 'PDF_PARSE_FAILED'
+  | 'ENCRYPTED'
+  | 'UPLOAD_FAILED'
+  | 'VALIDATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+const errorMessages: Record<ProcessingErrorCode, string> = {
+  NO_COMPARATOR_LINK: 'No Facturae e-invoice, CNMC comparator link, QR code or readable invoice text was found. Upload the bill PDF or XML as sent by the supplier, or a sharper photo.',
+  DOWNLOAD_FAILED: 'The uploaded file could not be read back. Try uploading it again.',
+  PDF_PARSE_FAILED: 'The file is damaged or not a valid PDF. Export it again and re-upload it.',
+  ENCRYPTED: 'The PDF is password protected. Upload it again with its password, often the NIF of the account holder.',
+  UPLOAD_FAILED: 'The results could not be saved. Try processing the file again.',
+  VALIDATION_FAILED: 'An invoice was found, but key fields such as the CUPS or total amount are missing.',
+  INTERNAL_ERROR: 'Something went wrong while processing this file. Try again later.',
+};
+
+// Falls back to the raw message for rows written before error codes existed
+export function describeProcessingError(code: string | null, message: string | null) {
+  return errorMessages[code as ProcessingErrorCode] ?? message ?? 'Processing failed';
+}
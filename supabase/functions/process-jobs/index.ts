@@ -0,0 +1,27 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { runWorker } from '../process-pdfs/jobs.ts'
+
+// Worker entry point, invoked on a schedule to pick up due retries and jobs
+// whose previous worker stopped heartbeating
+serve(async () => {
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const summary = await runWorker(supabase);
+
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Error running worker:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to run worker', details: error.message }),
+      { headers: { 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
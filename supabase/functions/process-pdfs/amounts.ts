@@ -0,0 +1,92 @@
+import { Decimal } from './decimal.ts'
+import type { InvoiceResults } from './types.ts'
+
+// Rounding rules of Spanish invoices: amounts in euros to the cent, energy
+// and power prices (€/kWh, €/kW day, €/day) to six decimals. Consumption is
+// kept to two decimals, as bills print it.
+export const EURO_SCALE = 2;
+export const PRICE_SCALE = 6;
+export const KWH_SCALE = 2;
+
+const EURO_FIELDS = new Set([
+  'total_amount',
+  'power_cost',
+  'energy_cost',
+  'additional_services_cost',
+  'other_costs_with_tax',
+  'other_costs_without_tax',
+  'discount',
+  'electricity_tax',
+  'fixed_term_cost',
+  'variable_term_cost',
+  'meter_rental_cost',
+  'tax_base',
+  'tax_amount'
+]);
+
+const PRICE_FIELD = /^(?:(?:power|energy)_rate_p\d|fixed_term_rate|variable_term_rate)$/;
+const KWH_FIELD = /^(?:consumption_p\d|consumption_kwh)$/;
+// Contracted and maximum power are not rounded, but are decimals all the same
+const POWER_FIELD = /^(?:contracted|max)_power_p\d$/;
+
+// The scale a result field is rounded to, or null for fields that are not
+// money, prices or energy (contracted power, dates, codes...)
+export function getAmountScale(field: string): number | null {
+  if (EURO_FIELDS.has(field)) return EURO_SCALE;
+  if (PRICE_FIELD.test(field)) return PRICE_SCALE;
+  if (KWH_FIELD.test(field)) return KWH_SCALE;
+  return null;
+}
+
+function roundTo(value: Decimal | null, scale: number): Decimal | null {
+  return value === null ? null : value.round(scale);
+}
+
+/**
+ * Rounds every money, price and energy field to its scale, including the
+ * tax and line totals of e-invoices. Applied once to what extractors return,
+ * so every later sum starts from the figures the invoice states.
+ */
+export function roundAmounts<T extends InvoiceResults>(results: T): T {
+  const rounded: Record<string, unknown> = { ...results };
+
+  for (const [field, value] of Object.entries(results)) {
+    const scale = getAmountScale(field);
+    if (scale !== null && value instanceof Decimal) {
+      rounded[field] = roundTo(value, scale);
+    }
+  }
+
+  if (results.taxes) {
+    rounded.taxes = results.taxes.map(tax => ({
+      ...tax,
+      base: roundTo(tax.base, EURO_SCALE),
+      amount: roundTo(tax.amount, EURO_SCALE)
+    }));
+  }
+  if (results.line_items) {
+    rounded.line_items = results.line_items.map(item => ({
+      ...item,
+      unit_price: roundTo(item.unit_price, PRICE_SCALE),
+      amount: roundTo(item.amount, EURO_SCALE)
+    }));
+  }
+  return rounded as T;
+}
+
+function toDecimal(value: unknown, scale: number | undefined): unknown {
+  if (value instanceof Decimal) return scale === undefined ? value : value.round(scale);
+  if (typeof value === 'string' || typeof value === 'number') return Decimal.parse(String(value), scale) ?? value;
+  return value;
+}
+
+// For the CSV writers: figures read back from jsonb, where they are strings
+// (or numbers, in rows stored before), become Decimals again and print with
+// their fixed number of decimals (45.60 rather than 45.6)
+export function withDecimalAmounts<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).map(([field, value]) => {
+    const scale = getAmountScale(field);
+    if (scale === null && !POWER_FIELD.test(field)) return [field, value];
+    return [field, toDecimal(value, scale ?? undefined)];
+  })) as T;
+}
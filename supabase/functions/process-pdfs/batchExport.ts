@@ -0,0 +1,123 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { withDecimalAmounts } from './amounts.ts'
+import { buildCsv } from './csv.ts'
+import { PERIODS } from './tariffs.ts'
+
+const periodColumns = (prefix: string) => PERIODS.map(p => `${prefix}${p}`);
+
+// Fixed so that exports from different batches can be stacked. Fields that
+// do not apply to an invoice's document type are left empty.
+export const BATCH_CSV_COLUMNS = [
+  'file_name',
+  'analysis_id',
+  'status',
+  'invoice_index',
+  'page_start',
+  'page_end',
+  'document_type',
+  'invoice_number',
+  'invoice_series',
+  'invoice_date',
+  'issuer_tax_id',
+  'issuer_name',
+  'buyer_tax_id',
+  'buyer_name',
+  'billing_start_date',
+  'billing_end_date',
+  'cups',
+  'cups_valid',
+  'cups_error',
+  'distributor_code',
+  'distributor_name',
+  'marketer_code',
+  'postal_code',
+  'province',
+  'autonomous_community',
+  'tax_regime',
+  'climate_zone',
+  'tariff_code',
+  'tariff_band',
+  'tax_base',
+  'tax_amount',
+  'electricity_tax',
+  'total_amount',
+  'discount',
+  ...periodColumns('contracted_power_p'),
+  ...periodColumns('max_power_p'),
+  ...periodColumns('consumption_p'),
+  'power_cost',
+  'energy_cost',
+  'additional_services_cost',
+  'other_costs_with_tax',
+  'other_costs_without_tax',
+  ...periodColumns('power_rate_p'),
+  ...periodColumns('energy_rate_p'),
+  'contract_start_date',
+  'contract_end_date',
+  'green_energy',
+  'consumption_kwh',
+  'fixed_term_rate',
+  'variable_term_rate',
+  'fixed_term_cost',
+  'variable_term_cost',
+  'meter_rental_cost',
+  'has_permanence',
+  'cnmc_url',
+  'extractor_name',
+  'extractor_version',
+  'extraction_source',
+];
+
+// useFileAnalysis downloads from the same path
+export function getBatchOutputPath(batchId: string) {
+  return `batches/${batchId}/invoices.csv`;
+}
+
+/**
+ * Writes one CSV for the whole batch with a row per invoice, so several
+ * uploaded bills can be analysed together.
+ */
+export async function exportBatchCsv(supabase: SupabaseClient, batchId: string) {
+  const { data: analyses, error: analysesError } = await supabase
+    .from('pdf_analysis')
+    .select('id, file_name, status')
+    .eq('batch_id', batchId)
+    .order('created_at');
+
+  if (analysesError || !analyses) {
+    throw new Error(`Failed to fetch batch analyses: ${analysesError?.message || 'No data'}`);
+  }
+
+  const { data: invoices, error: invoicesError } = await supabase
+    .from('extracted_invoices')
+    .select('analysis_id, invoice_index, page_start, page_end, extractor_name, extractor_version, extraction_source, results')
+    .in('analysis_id', analyses.map(a => a.id))
+    .order('invoice_index');
+
+  if (invoicesError || !invoices) {
+    throw new Error(`Failed to fetch batch invoices: ${invoicesError?.message || 'No data'}`);
+  }
+
+  const rows = analyses.flatMap(analysis => invoices
+    .filter(invoice => invoice.analysis_id === analysis.id)
+    .map(({ results, ...invoice }) => ({
+      ...withDecimalAmounts(results),
+      ...invoice,
+      file_name: analysis.file_name,
+      status: analysis.status
+    })));
+
+  const outputPath = getBatchOutputPath(batchId);
+  const { error: uploadError } = await supabase.storage
+    .from('outputs')
+    .upload(outputPath, new Blob([buildCsv(rows, BATCH_CSV_COLUMNS)], { type: 'text/csv' }), {
+      contentType: 'text/csv',
+      upsert: true
+    });
+
+  if (uploadError) {
+    throw uploadError;
+  }
+
+  console.log(`Exported ${rows.length} invoices for batch ${batchId}`);
+}
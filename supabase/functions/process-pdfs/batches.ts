@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { EURO_SCALE, KWH_SCALE } from './amounts.ts'
+import { exportBatchCsv } from './batchExport.ts'
+import { Decimal } from './decimal.ts'
+
+export interface BatchStats {
+  id: string;
+  status: 'processing' | 'completed';
+  file_count: number;
+  processed_count: number;
+  needs_review_count: number;
+  failed_count: number;
+  skipped_count: number;
+  total_consumption: number;
+  total_amount: number;
+  average_cost: number | null;
+}
+
+// Recomputes the batch aggregates after one of its files has finished, and
+// writes the batch export once the last one has
+export async function refreshBatchStats(supabase: SupabaseClient, batchId: string) {
+  const { data, error } = await supabase.rpc('refresh_batch_stats', { p_batch_id: batchId });
+
+  if (error) {
+    console.error(`Failed to refresh batch ${batchId}:`, error);
+    return;
+  }
+
+  const batch = data as BatchStats | null;
+  if (batch?.status !== 'completed') return;
+
+  console.log(`\nBatch ${batch.id} completed:`);
+  console.log(`Files processed successfully: ${batch.processed_count} of ${batch.file_count} (${batch.needs_review_count} need review)`);
+  console.log(`Files with errors: ${batch.failed_count}`);
+  console.log(`Files without extractable data: ${batch.skipped_count}`);
+  console.log(`Total consumption: ${Decimal.from(Number(batch.total_consumption), KWH_SCALE)} kWh`);
+  console.log(`Total amount: ${Decimal.from(Number(batch.total_amount), EURO_SCALE)}€`);
+  console.log(`Average cost per file: ${Decimal.from(Number(batch.average_cost ?? 0), EURO_SCALE)}€`);
+
+  try {
+    await exportBatchCsv(supabase, batch.id);
+  } catch (exportError) {
+    console.error(`Failed to export batch ${batch.id}:`, exportError);
+  }
+}
@@ -0,0 +1,24 @@
+import { Decimal } from './decimal.ts'
+
+type CsvValue = string | number | boolean | Decimal | object | null | undefined;
+
+function quote(value: string) {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Lists such as invoice line items are written as JSON in a single cell
+function formatValue(value: CsvValue) {
+  if (typeof value === 'string') return quote(value);
+  // Written unquoted with their fixed number of decimals
+  if (value instanceof Decimal) return value.toString();
+  if (typeof value === 'object' && value !== null) return quote(JSON.stringify(value));
+  return value;
+}
+
+// Columns default to the union of the row keys, in order of first appearance
+export function buildCsv(rows: Record<string, CsvValue>[], columns = [...new Set(rows.flatMap(row => Object.keys(row)))]): string {
+  const csvHeader = columns.join(',');
+  const csvRows = rows.map(row => columns.map(column => formatValue(row[column])).join(','));
+
+  return [csvHeader, ...csvRows].join('\n');
+}
@@ -0,0 +1,50 @@
+import { DISTRIBUTORS } from './data/distributors.ts'
+
+const CUPS_FORMAT = /^ES(\d{4})(\d{12})([A-Z]{2})(\d[FPCRXYZ])?$/;
+const CONTROL_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+export interface CupsCheck {
+  cups: string;
+  valid: boolean;
+  error: string | null;
+  distributorCode: string | null;
+  distributorName: string | null;
+}
+
+// The two control letters encode the 16 digits modulo 529 (23 × 23)
+export function getCupsControlLetters(digits: string): string {
+  const remainder = Number(BigInt(digits) % 529n);
+  return CONTROL_LETTERS[Math.floor(remainder / 23)] + CONTROL_LETTERS[remainder % 23];
+}
+
+function cleanCups(raw: string): string {
+  return raw.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// The 20 characters that name the supply point, without the optional suffix
+// for its measuring point (e.g. '0F'), which bills print inconsistently
+export function getCupsCore(raw: string): string {
+  const cups = cleanCups(raw);
+  return CUPS_FORMAT.test(cups) ? cups.slice(0, 20) : cups;
+}
+
+export function checkCups(raw: string): CupsCheck {
+  const cups = cleanCups(raw);
+  const match = cups.match(CUPS_FORMAT);
+
+  if (!match) {
+    return { cups, valid: false, error: 'Malformed CUPS', distributorCode: null, distributorName: null };
+  }
+
+  const [, distributorCode, supplyDigits, control] = match;
+  const distributorName = DISTRIBUTORS[distributorCode] ?? null;
+  const expected = getCupsControlLetters(distributorCode + supplyDigits);
+
+  return {
+    cups,
+    valid: expected === control,
+    error: expected === control ? null : `Control letters ${control} do not match, expected ${expected}`,
+    distributorCode,
+    distributorName
+  };
+}
@@ -0,0 +1,10 @@
+// Electricity distribution companies by the 4-digit code that follows "ES"
+// in the CUPS. Only the large distributors are listed; small local ones
+// resolve to an unknown distributor.
+export const DISTRIBUTORS: Record<string, string> = {
+  '0021': 'i-DE Redes Eléctricas Inteligentes',
+  '0022': 'UFD Distribución Electricidad',
+  '0026': 'E-Redes Distribución Eléctrica',
+  '0027': 'Viesgo Distribución Eléctrica',
+  '0031': 'e-distribución Redes Digitales',
+};
@@ -0,0 +1,65 @@
+export type TaxRegime = 'IVA' | 'IGIC' | 'IPSI';
+
+export interface Province {
+  name: string;
+  community: string;
+  taxRegime: TaxRegime;
+  // CTE DB-HE zone of the provincial capital; towns at other altitudes may differ
+  climateZone: string;
+}
+
+// Keyed by the first two digits of the postal code
+export const PROVINCES: Record<string, Province> = {
+  '01': { name: 'Araba/Álava', community: 'País Vasco', taxRegime: 'IVA', climateZone: 'D1' },
+  '02': { name: 'Albacete', community: 'Castilla-La Mancha', taxRegime: 'IVA', climateZone: 'D3' },
+  '03': { name: 'Alicante/Alacant', community: 'Comunitat Valenciana', taxRegime: 'IVA', climateZone: 'B4' },
+  '04': { name: 'Almería', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'A4' },
+  '05': { name: 'Ávila', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'E1' },
+  '06': { name: 'Badajoz', community: 'Extremadura', taxRegime: 'IVA', climateZone: 'C4' },
+  '07': { name: 'Illes Balears', community: 'Illes Balears', taxRegime: 'IVA', climateZone: 'B3' },
+  '08': { name: 'Barcelona', community: 'Cataluña', taxRegime: 'IVA', climateZone: 'C2' },
+  '09': { name: 'Burgos', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'E1' },
+  '10': { name: 'Cáceres', community: 'Extremadura', taxRegime: 'IVA', climateZone: 'C4' },
+  '11': { name: 'Cádiz', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'A3' },
+  '12': { name: 'Castellón/Castelló', community: 'Comunitat Valenciana', taxRegime: 'IVA', climateZone: 'B3' },
+  '13': { name: 'Ciudad Real', community: 'Castilla-La Mancha', taxRegime: 'IVA', climateZone: 'C4' },
+  '14': { name: 'Córdoba', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'B4' },
+  '15': { name: 'A Coruña', community: 'Galicia', taxRegime: 'IVA', climateZone: 'C1' },
+  '16': { name: 'Cuenca', community: 'Castilla-La Mancha', taxRegime: 'IVA', climateZone: 'D2' },
+  '17': { name: 'Girona', community: 'Cataluña', taxRegime: 'IVA', climateZone: 'D2' },
+  '18': { name: 'Granada', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'C3' },
+  '19': { name: 'Guadalajara', community: 'Castilla-La Mancha', taxRegime: 'IVA', climateZone: 'D3' },
+  '20': { name: 'Gipuzkoa', community: 'País Vasco', taxRegime: 'IVA', climateZone: 'D1' },
+  '21': { name: 'Huelva', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'A4' },
+  '22': { name: 'Huesca', community: 'Aragón', taxRegime: 'IVA', climateZone: 'D2' },
+  '23': { name: 'Jaén', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'C4' },
+  '24': { name: 'León', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'E1' },
+  '25': { name: 'Lleida', community: 'Cataluña', taxRegime: 'IVA', climateZone: 'D3' },
+  '26': { name: 'La Rioja', community: 'La Rioja', taxRegime: 'IVA', climateZone: 'D2' },
+  '27': { name: 'Lugo', community: 'Galicia', taxRegime: 'IVA', climateZone: 'D1' },
+  '28': { name: 'Madrid', community: 'Comunidad de Madrid', taxRegime: 'IVA', climateZone: 'D3' },
+  '29': { name: 'Málaga', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'A3' },
+  '30': { name: 'Murcia', community: 'Región de Murcia', taxRegime: 'IVA', climateZone: 'B3' },
+  '31': { name: 'Navarra', community: 'Comunidad Foral de Navarra', taxRegime: 'IVA', climateZone: 'D1' },
+  '32': { name: 'Ourense', community: 'Galicia', taxRegime: 'IVA', climateZone: 'D2' },
+  '33': { name: 'Asturias', community: 'Principado de Asturias', taxRegime: 'IVA', climateZone: 'D1' },
+  '34': { name: 'Palencia', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'D1' },
+  '35': { name: 'Las Palmas', community: 'Canarias', taxRegime: 'IGIC', climateZone: 'α3' },
+  '36': { name: 'Pontevedra', community: 'Galicia', taxRegime: 'IVA', climateZone: 'C1' },
+  '37': { name: 'Salamanca', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'D2' },
+  '38': { name: 'Santa Cruz de Tenerife', community: 'Canarias', taxRegime: 'IGIC', climateZone: 'α3' },
+  '39': { name: 'Cantabria', community: 'Cantabria', taxRegime: 'IVA', climateZone: 'C1' },
+  '40': { name: 'Segovia', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'D2' },
+  '41': { name: 'Sevilla', community: 'Andalucía', taxRegime: 'IVA', climateZone: 'B4' },
+  '42': { name: 'Soria', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'E1' },
+  '43': { name: 'Tarragona', community: 'Cataluña', taxRegime: 'IVA', climateZone: 'B3' },
+  '44': { name: 'Teruel', community: 'Aragón', taxRegime: 'IVA', climateZone: 'D2' },
+  '45': { name: 'Toledo', community: 'Castilla-La Mancha', taxRegime: 'IVA', climateZone: 'C4' },
+  '46': { name: 'Valencia/València', community: 'Comunitat Valenciana', taxRegime: 'IVA', climateZone: 'B3' },
+  '47': { name: 'Valladolid', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'D2' },
+  '48': { name: 'Bizkaia', community: 'País Vasco', taxRegime: 'IVA', climateZone: 'C1' },
+  '49': { name: 'Zamora', community: 'Castilla y León', taxRegime: 'IVA', climateZone: 'D2' },
+  '50': { name: 'Zaragoza', community: 'Aragón', taxRegime: 'IVA', climateZone: 'D3' },
+  '51': { name: 'Ceuta', community: 'Ceuta', taxRegime: 'IPSI', climateZone: 'B3' },
+  '52': { name: 'Melilla', community: 'Melilla', taxRegime: 'IPSI', climateZone: 'A3' },
+};
@@ -0,0 +1,132 @@
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+// Integer division rounding half away from zero, the rounding Spanish
+// invoices use: 0.125 becomes 0.13 and -0.125 becomes -0.13
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  if (denominator < 0n) return divideRounded(-numerator, -denominator);
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const doubled = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (doubled < denominator) return quotient;
+  return numerator < 0n ? quotient - 1n : quotient + 1n;
+}
+
+/**
+ * A decimal number held as an integer count of 10^-scale units, so sums and
+ * differences of amounts are exact instead of drifting like floats do.
+ * Serialises to a JSON string with its fixed number of decimals ("45.60"),
+ * so results, summaries and CSVs carry the figure exactly as computed; SQL
+ * reads it back with ::numeric.
+ */
+export class Decimal {
+  private constructor(readonly units: bigint, readonly scale: number) {}
+
+  static zero(scale = 0): Decimal {
+    return new Decimal(0n, scale);
+  }
+
+  /**
+   * Parses a decimal written with a dot, optionally in exponent notation.
+   * Without a scale every digit is kept; with one the value is rounded to
+   * it. Returns null for anything that is not a number.
+   */
+  static parse(value: string, scale?: number): Decimal | null {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) return null;
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+    const digits = BigInt(`${integer}${fraction}` || '0') * (sign === '-' ? -1n : 1n);
+    const exact = new Decimal(digits, fraction.length).shift(Number(exponent));
+    return scale === undefined ? exact : exact.round(scale);
+  }
+
+  // Reads the shortest decimal that prints as the number, so 0.1 is exactly 0.1
+  static from(value: number, scale?: number): Decimal {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`Not a finite number: ${value}`);
+    }
+    return Decimal.parse(String(value), scale)!;
+  }
+
+  // Sums the values at the given scale; missing values count as zero
+  static sum(values: (number | Decimal | null | undefined)[], scale: number): Decimal {
+    return values.reduce<Decimal>((total, value) => {
+      if (value === null || value === undefined) return total;
+      return total.plus(value instanceof Decimal ? value : Decimal.from(value));
+    }, Decimal.zero(scale)).round(scale);
+  }
+
+  // Multiplies by 10^exponent without losing digits
+  private shift(exponent: number): Decimal {
+    if (exponent >= 0) {
+      return exponent <= this.scale
+        ? new Decimal(this.units, this.scale - exponent)
+        : new Decimal(this.units * pow10(exponent - this.scale), 0);
+    }
+    return new Decimal(this.units, this.scale - exponent);
+  }
+
+  private rescale(scale: number): bigint {
+    return scale >= this.scale
+      ? this.units * pow10(scale - this.scale)
+      : divideRounded(this.units, pow10(this.scale - scale));
+  }
+
+  round(scale: number): Decimal {
+    return new Decimal(this.rescale(scale), scale);
+  }
+
+  plus(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) + other.rescale(scale), scale);
+  }
+
+  minus(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) - other.rescale(scale), scale);
+  }
+
+  // Exact unless a scale is given to round the product to
+  times(other: Decimal, scale?: number): Decimal {
+    const product = new Decimal(this.units * other.units, this.scale + other.scale);
+    return scale === undefined ? product : product.round(scale);
+  }
+
+  dividedBy(divisor: Decimal, scale = this.scale): Decimal {
+    if (divisor.units === 0n) {
+      throw new RangeError('Division by zero');
+    }
+    // units / 10^a ÷ (divisor / 10^b) = units × 10^(scale - a + b) / divisor, in units of 10^-scale
+    const exponent = scale - this.scale + divisor.scale;
+    const numerator = exponent >= 0 ? this.units * pow10(exponent) : this.units;
+    const denominator = exponent >= 0 ? divisor.units : divisor.units * pow10(-exponent);
+    return new Decimal(divideRounded(numerator, denominator), scale);
+  }
+
+  sign(): -1 | 0 | 1 {
+    return this.units < 0n ? -1 : this.units > 0n ? 1 : 0;
+  }
+
+  // Written with exactly `scale` decimals, e.g. 45.60
+  toString(): string {
+    const negative = this.units < 0n;
+    const digits = (negative ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = this.scale > 0 ? `.${digits.slice(-this.scale)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+  }
+
+  // Only for ratios and logs; never for a figure that is stored
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { getCupsCore } from './cups.ts'
+import type { InvoiceResults } from './types.ts'
+
+// Statuses of analyses whose invoices can be reused instead of the duplicate
+const REUSABLE_STATUSES = ['completed', 'needs_review'];
+
+// The fields a bill is recognised by, as stored in extracted_invoices
+export interface InvoiceIdentity {
+  cups: string | null;
+  billing_start_date: string | null;
+  billing_end_date: string | null;
+  invoice_date: string | null;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|[T ])/;
+const DAY_FIRST_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+const COMPACT_DATE = /^(\d{4})(\d{2})(\d{2})$/;
+
+// yyyy-mm-dd from the formats bills and comparator links use, or null when
+// the value is not a date
+function toIsoDate(value: string | null): string | null {
+  const trimmed = value?.trim() ?? '';
+  let parts: string[] | null = null;
+
+  const iso = trimmed.match(ISO_DATE) ?? trimmed.match(COMPACT_DATE);
+  if (iso) {
+    parts = [iso[1], iso[2], iso[3]];
+  } else {
+    const dayFirst = trimmed.match(DAY_FIRST_DATE);
+    if (dayFirst) {
+      parts = [dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3], dayFirst[2], dayFirst[1]];
+    }
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The identity fields in one form whatever the source: ISO dates, and the
+ * CUPS without its measuring point suffix. Used both when storing invoices
+ * and when looking them up.
+ */
+export function getInvoiceIdentity(results: InvoiceResults): InvoiceIdentity {
+  return {
+    cups: results.cups ? getCupsCore(results.cups) : null,
+    billing_start_date: toIsoDate(results.billing_start_date),
+    billing_end_date: toIsoDate(results.billing_end_date),
+    invoice_date: toIsoDate(results.invoice_date)
+  };
+}
+
+/**
+ * Looks for an earlier analysis holding the same bill: same CUPS, billing
+ * period and invoice date. Catches duplicates the upload hash misses, such
+ * as a photo of a bill that was already uploaded as a PDF. Returns the id of
+ * the oldest match uploaded before this analysis, or null. Uploads are
+ * compared by when the analysis was created, since reprocessing replaces the
+ * extracted_invoices rows.
+ */
+export async function findDuplicateAnalysis(
+  supabase: SupabaseClient,
+  analysis: { id: string; created_at: string },
+  invoices: InvoiceResults[]
+): Promise<string | null> {
+  for (const { cups, billing_start_date, billing_end_date, invoice_date } of invoices.map(getInvoiceIdentity)) {
+    // A partial key would match unrelated bills of the same supply point
+    if (!cups || !billing_start_date || !billing_end_date || !invoice_date) continue;
+
+    const { data, error } = await supabase
+      .from('extracted_invoices')
+      .select('analysis_id, pdf_analysis!inner(status, created_at)')
+      .eq('cups', cups)
+      .eq('billing_start_date', billing_start_date)
+      .eq('billing_end_date', billing_end_date)
+      .eq('invoice_date', invoice_date)
+      .neq('analysis_id', analysis.id)
+      .in('pdf_analysis.status', REUSABLE_STATUSES)
+      .lt('pdf_analysis.created_at', analysis.created_at);
+
+    // Only a warning for the user, never worth failing the analysis over
+    if (error) {
+      console.warn('Duplicate check failed:', error.message);
+      return null;
+    }
+
+    // PostgREST can only order the rows by their own columns, so the oldest
+    // upload is picked here; a bill rarely has more than a few copies
+    const [oldest] = (data as { analysis_id: string; pdf_analysis: { created_at: string } }[])
+      .sort((a, b) => Date.parse(a.pdf_analysis.created_at) - Date.parse(b.pdf_analysis.created_at));
+    if (oldest) return oldest.analysis_id;
+  }
+  return null;
+}
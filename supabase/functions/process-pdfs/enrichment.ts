@@ -0,0 +1,106 @@
+import type { ExtractionOutcome } from './extractors/types.ts'
+import type { FieldProvenanceMap, InvoiceEnrichment, InvoiceResults } from './types.ts'
+import { checkCups } from './cups.ts'
+import { findProvince } from './postalCodes.ts'
+import { MISSING_FIELD, derivedField } from './provenance.ts'
+
+interface Enrichment {
+  // Extracted field the new fields are looked up from, and placed after
+  from: keyof InvoiceResults;
+  fields: InvoiceEnrichment;
+  provenance: FieldProvenanceMap;
+}
+
+// Marks every field as missing when the source field was not extracted
+function missingEnrichment(from: keyof InvoiceResults, fields: InvoiceEnrichment): Enrichment {
+  return {
+    from,
+    fields,
+    provenance: Object.fromEntries(Object.keys(fields).map(field => [field, MISSING_FIELD]))
+  };
+}
+
+// Re-creates the object with the new fields right after `field`, so they
+// sit next to the value they describe in the CSV export
+function insertAfter<T extends object>(target: T, field: string, values: object): T {
+  const entries = Object.entries(target);
+  const index = entries.findIndex(([key]) => key === field) + 1;
+  entries.splice(index || entries.length, 0, ...Object.entries(values));
+  return Object.fromEntries(entries) as T;
+}
+
+function enrichCups(results: InvoiceResults): Enrichment {
+  if (!results.cups) {
+    return missingEnrichment('cups', { cups_valid: null, cups_error: null, distributor_code: null, distributor_name: null });
+  }
+
+  const check = checkCups(results.cups);
+  if (!check.valid) {
+    console.log(`Invalid CUPS ${check.cups}:`, check.error);
+  }
+
+  return {
+    from: 'cups',
+    fields: {
+      cups_valid: check.valid,
+      cups_error: check.error,
+      distributor_code: check.distributorCode,
+      distributor_name: check.distributorName
+    },
+    provenance: {
+      cups_valid: derivedField(check.valid, 'cups', 1),
+      cups_error: derivedField(check.error, 'cups', 1),
+      distributor_code: derivedField(check.distributorCode, 'cups', 1),
+      distributor_name: derivedField(check.distributorName, 'cups', 1)
+    }
+  };
+}
+
+// The climate zone is the provincial capital's, so it is only a best guess
+// for towns at a different altitude
+const CLIMATE_ZONE_CONFIDENCE = 0.7;
+
+function enrichPostalCode(results: InvoiceResults): Enrichment {
+  const empty = { province: null, autonomous_community: null, tax_regime: null, climate_zone: null };
+  if (!results.postal_code) {
+    return missingEnrichment('postal_code', empty);
+  }
+
+  const province = findProvince(results.postal_code);
+  if (!province) {
+    console.log('Postal code does not match a province:', results.postal_code);
+    return missingEnrichment('postal_code', empty);
+  }
+
+  return {
+    from: 'postal_code',
+    fields: {
+      province: province.name,
+      autonomous_community: province.community,
+      tax_regime: province.taxRegime,
+      climate_zone: province.climateZone
+    },
+    provenance: {
+      province: derivedField(province.name, 'postal_code', 1),
+      autonomous_community: derivedField(province.community, 'postal_code', 1),
+      tax_regime: derivedField(province.taxRegime, 'postal_code', 1),
+      climate_zone: derivedField(province.climateZone, 'postal_code', CLIMATE_ZONE_CONFIDENCE)
+    }
+  };
+}
+
+/**
+ * Adds the fields that come from bundled reference data rather than the
+ * document itself. Each enrichment's provenance points at the extracted
+ * field it was looked up from.
+ */
+export function enrichOutcome(outcome: ExtractionOutcome): ExtractionOutcome {
+  return [enrichPostalCode, enrichCups].reduce((enriched, enrich) => {
+    const { from, fields, provenance } = enrich(enriched.results);
+    return {
+      ...enriched,
+      results: insertAfter(enriched.results, from, fields),
+      provenance: insertAfter(enriched.provenance, from, provenance)
+    };
+  }, outcome);
+}
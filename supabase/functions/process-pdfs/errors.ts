@@ -0,0 +1,55 @@
+export type ErrorCode =
+  | 'NO_COMPARATOR_LINK'
+  | 'DOWNLOAD_FAILED'
+  | 'PDF_PARSE_FAILED'
+  | 'ENCRYPTED'
+  | 'UPLOAD_FAILED'
+  | 'VALIDATION_FAILED'
+  | 'INTERNAL_ERROR';
+
+// Status a file ends in when processing stops with the code. 'skipped' means
+// there was nothing to extract, 'unsupported' that the file could not be read
+// and 'encrypted' that it needs a password.
+export type FailureStatus = 'error' | 'skipped' | 'unsupported' | 'encrypted';
+
+const ERROR_CODES: Record<ErrorCode, { retryable: boolean; status: FailureStatus }> = {
+  NO_COMPARATOR_LINK: { retryable: false, status: 'skipped' },
+  DOWNLOAD_FAILED: { retryable: true, status: 'error' },
+  PDF_PARSE_FAILED: { retryable: false, status: 'unsupported' },
+  ENCRYPTED: { retryable: false, status: 'encrypted' },
+  UPLOAD_FAILED: { retryable: true, status: 'error' },
+  VALIDATION_FAILED: { retryable: false, status: 'error' },
+  INTERNAL_ERROR: { retryable: true, status: 'error' },
+};
+
+export class ProcessingError extends Error {
+  readonly code: ErrorCode;
+  // Whether another attempt could succeed; the job queue gives up otherwise
+  readonly retryable: boolean;
+
+  constructor(code: ErrorCode, message: string, retryable = ERROR_CODES[code].retryable) {
+    super(message);
+    this.name = 'ProcessingError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+
+  get status(): FailureStatus {
+    return ERROR_CODES[this.code].status;
+  }
+}
+
+// Supabase returns plain objects for database errors
+function getMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+// Anything that was not classified where it was thrown is treated as transient
+export function toProcessingError(error: unknown): ProcessingError {
+  if (error instanceof ProcessingError) return error;
+  return new ProcessingError('INTERNAL_ERROR', getMessage(error));
+}
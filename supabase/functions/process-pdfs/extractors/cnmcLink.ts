@@ -0,0 +1,47 @@
+import { PDFDict, PDFHexString, PDFName, PDFString } from "https://cdn.skypack.dev/pdf-lib?dts"
+import type { Extractor } from './types.ts'
+import { isCnmcUrl, mapCnmcUrl, splitByComparatorUrl, validateCnmcResults } from './cnmcParams.ts'
+
+// Finds the CNMC comparator URLs among the page link annotations
+export const cnmcLinkExtractor: Extractor<string> = {
+  name: 'cnmc-link',
+  version: '1.7.0',
+  source: 'comparator_link',
+
+  async detect({ pdfDoc }) {
+    if (!pdfDoc) return [];
+
+    const foundUrls: string[] = [];
+    const cnmcUrls: { pageIndex: number; url: string }[] = [];
+
+    for (let i = 0; i < pdfDoc.getPageCount(); i++) {
+      const annotations = pdfDoc.getPage(i).node.Annots();
+
+      if (!annotations) continue;
+
+      for (let j = 0; j < annotations.size(); j++) {
+        const annot = annotations.lookupMaybe(j, PDFDict);
+        if (annot?.get(PDFName.of('Subtype')) !== PDFName.of('Link')) continue;
+
+        const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+        const uri = action?.lookupMaybe(PDFName.of('URI'), PDFString, PDFHexString)?.decodeText();
+        if (uri) {
+          foundUrls.push(uri);
+          if (isCnmcUrl(uri)) {
+            cnmcUrls.push({ pageIndex: i, url: uri });
+          }
+        }
+      }
+    }
+
+    console.log('Found URLs:', foundUrls);
+    return splitByComparatorUrl(cnmcUrls, pdfDoc.getPageCount());
+  },
+
+  async extract(cnmcUrl) {
+    console.log('Found CNMC URL:', cnmcUrl);
+    return mapCnmcUrl(cnmcUrl);
+  },
+
+  validate: validateCnmcResults
+};
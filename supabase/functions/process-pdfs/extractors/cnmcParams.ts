@@ -0,0 +1,222 @@
+import type { ElectricityInvoiceResults, FieldProvenanceMap, GasInvoiceResults, InvoiceResults } from '../types.ts'
+import { Decimal } from '../decimal.ts'
+import { MISSING_FIELD, derivedField } from '../provenance.ts'
+import { getGasTariffBand, isGasTariff } from '../tariffs.ts'
+import type { DetectedInvoice, ExtractedInvoice } from './types.ts'
+
+export const CNMC_HOST = 'comparador.cnmc.gob.es';
+
+export function isCnmcUrl(uri: string) {
+  return uri.includes(CNMC_HOST);
+}
+
+/**
+ * Turns the comparator URLs found on each page into one invoice per
+ * distinct URL. Bundled PDFs print the link on the first page of every
+ * invoice, so an invoice runs until the page before the next link.
+ */
+export function splitByComparatorUrl(
+  found: { pageIndex: number; url: string }[],
+  pageCount: number
+): DetectedInvoice<string>[] {
+  const unique = found.filter((item, index) =>
+    found.findIndex(other => other.url === item.url) === index
+  );
+
+  return unique.map((item, index) => {
+    const nextPage = unique.slice(index + 1).find(next => next.pageIndex > item.pageIndex)?.pageIndex;
+    return {
+      match: item.url,
+      pageStart: item.pageIndex,
+      pageEnd: nextPage === undefined ? pageCount - 1 : nextPage - 1
+    };
+  });
+}
+
+type CnmcParams = Record<string, string>;
+
+// Reads comparator params into result fields, recording where each came from
+// and which params the mapping knows about
+function createParamReader(params: CnmcParams) {
+  const provenance: FieldProvenanceMap = {};
+  const known = new Set<string>();
+
+  // Every param the mapping reads is known, even when the link leaves it out
+  const lookup = (param: string): string | undefined => {
+    known.add(param);
+    return params[param];
+  };
+
+  const string = (field: string, param: string): string | null => {
+    const raw = lookup(param);
+    if (raw === undefined || raw === '') {
+      provenance[field] = MISSING_FIELD;
+      return null;
+    }
+    provenance[field] = { value: raw, source: 'url_param', param, confidence: 1 };
+    return raw;
+  };
+
+  const number = (field: string, param: string): Decimal | null => {
+    const raw = string(field, param);
+    if (raw === null) return null;
+
+    // Stricter than parseFloat, which reads "12,5" as 12
+    const value = Decimal.parse(raw);
+    if (value === null) {
+      provenance[field] = { value: null, source: 'url_param', param, raw, confidence: 0 };
+      return null;
+    }
+    provenance[field] = { value, source: 'url_param', param, confidence: 1 };
+    return value;
+  };
+
+  const derived = <T extends string | boolean | null>(field: string, value: T, from: string): T => {
+    provenance[field] = derivedField(value, from, 1);
+    return value;
+  };
+
+  // Fields the link does not carry: the comparator works out taxes itself
+  const missing = (field: string): null => {
+    provenance[field] = MISSING_FIELD;
+    return null;
+  };
+
+  // Params in the link that no field is mapped from, such as ones CNMC added later
+  const unknown = () => Object.keys(params).filter(param => !known.has(param));
+
+  return { lookup, string, number, derived, missing, unknown, provenance };
+}
+
+function toGreenEnergy(verde: string | undefined) {
+  return verde === undefined ? null : verde === 'true';
+}
+
+// The comparator sends 0000-00-00 when the contract has no permanence
+function toHasPermanence(finPen: string | undefined) {
+  return finPen === undefined ? null : finPen !== '0000-00-00';
+}
+
+// The gas comparator lives under its own path and uses RL.x tariff codes
+export function isGasComparatorUrl(url: URL) {
+  return /\/gas\b/i.test(url.pathname) || isGasTariff(url.searchParams.get('tc'));
+}
+
+function mapElectricityParams(cnmcUrl: string, params: CnmcParams): ExtractedInvoice {
+  const read = createParamReader(params);
+
+  const results: ElectricityInvoiceResults = {
+    document_type: 'electricity',
+    cnmc_url: cnmcUrl,
+    postal_code: read.string('postal_code', 'cp'),
+    contracted_power_p1: read.number('contracted_power_p1', 'pP1'),
+    contracted_power_p2: read.number('contracted_power_p2', 'pP2'),
+    contracted_power_p3: read.number('contracted_power_p3', 'pP3'),
+    contracted_power_p4: read.number('contracted_power_p4', 'pP4'),
+    contracted_power_p5: read.number('contracted_power_p5', 'pP5'),
+    contracted_power_p6: read.number('contracted_power_p6', 'pP6'),
+    max_power_p1: read.number('max_power_p1', 'pmaxP1'),
+    max_power_p2: read.number('max_power_p2', 'pmaxP2'),
+    max_power_p3: read.number('max_power_p3', 'pmaxP3'),
+    max_power_p4: read.number('max_power_p4', 'pmaxP4'),
+    max_power_p5: read.number('max_power_p5', 'pmaxP5'),
+    max_power_p6: read.number('max_power_p6', 'pmaxP6'),
+    consumption_p1: read.number('consumption_p1', 'caP1'),
+    consumption_p2: read.number('consumption_p2', 'caP2'),
+    consumption_p3: read.number('consumption_p3', 'caP3'),
+    consumption_p4: read.number('consumption_p4', 'caP4'),
+    consumption_p5: read.number('consumption_p5', 'caP5'),
+    consumption_p6: read.number('consumption_p6', 'caP6'),
+    contract_start_date: read.string('contract_start_date', 'iniA'),
+    contract_end_date: read.string('contract_end_date', 'finContrato'),
+    billing_start_date: read.string('billing_start_date', 'iniF'),
+    billing_end_date: read.string('billing_end_date', 'finF'),
+    invoice_date: read.string('invoice_date', 'fFact'),
+    power_cost: read.number('power_cost', 'impPot'),
+    energy_cost: read.number('energy_cost', 'impEner'),
+    total_amount: read.number('total_amount', 'imp'),
+    additional_services_cost: read.number('additional_services_cost', 'impSA'),
+    other_costs_with_tax: read.number('other_costs_with_tax', 'impOtrosConIE'),
+    other_costs_without_tax: read.number('other_costs_without_tax', 'impOtrosSinIE'),
+    discount: read.number('discount', 'dto'),
+    electricity_tax: read.missing('electricity_tax'),
+    power_rate_p1: read.number('power_rate_p1', 'prP1'),
+    power_rate_p2: read.number('power_rate_p2', 'prP2'),
+    power_rate_p3: read.number('power_rate_p3', 'prP3'),
+    power_rate_p4: read.number('power_rate_p4', 'prP4'),
+    power_rate_p5: read.number('power_rate_p5', 'prP5'),
+    power_rate_p6: read.number('power_rate_p6', 'prP6'),
+    energy_rate_p1: read.number('energy_rate_p1', 'prE1'),
+    energy_rate_p2: read.number('energy_rate_p2', 'prE2'),
+    energy_rate_p3: read.number('energy_rate_p3', 'prE3'),
+    energy_rate_p4: read.number('energy_rate_p4', 'prE4'),
+    energy_rate_p5: read.number('energy_rate_p5', 'prE5'),
+    energy_rate_p6: read.number('energy_rate_p6', 'prE6'),
+    cups: read.string('cups', 'cups'),
+    tariff_code: read.string('tariff_code', 'tc'),
+    marketer_code: read.string('marketer_code', 'com'),
+    green_energy: read.derived('green_energy', toGreenEnergy(read.lookup('verde')), 'verde'),
+    has_permanence: read.derived('has_permanence', toHasPermanence(read.lookup('finPen')), 'finPen')
+  };
+
+  return { results, provenance: read.provenance, comparatorParams: { params, unknown: read.unknown() } };
+}
+
+function mapGasParams(cnmcUrl: string, params: CnmcParams): ExtractedInvoice {
+  const read = createParamReader(params);
+  const tariffCode = read.string('tariff_code', 'tc');
+
+  const results: GasInvoiceResults = {
+    document_type: 'gas',
+    cnmc_url: cnmcUrl,
+    postal_code: read.string('postal_code', 'cp'),
+    consumption_kwh: read.number('consumption_kwh', 'ca'),
+    billing_start_date: read.string('billing_start_date', 'iniF'),
+    billing_end_date: read.string('billing_end_date', 'finF'),
+    invoice_date: read.string('invoice_date', 'fFact'),
+    fixed_term_rate: read.number('fixed_term_rate', 'prTF'),
+    variable_term_rate: read.number('variable_term_rate', 'prTV'),
+    fixed_term_cost: read.number('fixed_term_cost', 'impTF'),
+    variable_term_cost: read.number('variable_term_cost', 'impTV'),
+    meter_rental_cost: read.number('meter_rental_cost', 'impAlq'),
+    discount: read.number('discount', 'dto'),
+    total_amount: read.number('total_amount', 'imp'),
+    cups: read.string('cups', 'cups'),
+    tariff_code: tariffCode,
+    tariff_band: read.derived('tariff_band', getGasTariffBand(tariffCode), 'tariff_code'),
+    marketer_code: read.string('marketer_code', 'com'),
+    has_permanence: read.derived('has_permanence', toHasPermanence(read.lookup('finPen')), 'finPen')
+  };
+
+  return { results, provenance: read.provenance, comparatorParams: { params, unknown: read.unknown() } };
+}
+
+/**
+ * Maps the query string of a CNMC comparator link to invoice results. The
+ * complete param map is kept alongside, so params without a mapping are not
+ * lost; they are logged so the mapping can be extended.
+ */
+export function mapCnmcUrl(cnmcUrl: string): ExtractedInvoice {
+  const url = new URL(cnmcUrl);
+  const params = Object.fromEntries(url.searchParams);
+
+  const extracted = isGasComparatorUrl(url)
+    ? mapGasParams(cnmcUrl, params)
+    : mapElectricityParams(cnmcUrl, params);
+
+  const unknown = extracted.comparatorParams?.unknown ?? [];
+  if (unknown.length > 0) {
+    console.warn(`Comparator link has params without a mapping: ${unknown.map(param => `${param}=${params[param]}`).join(', ')}`);
+  }
+  return extracted;
+}
+
+export function validateCnmcResults(results: InvoiceResults): string[] {
+  const problems: string[] = [];
+
+  if (!results.cups) {
+    problems.push('Missing CUPS (cups)');
+  }
+
+  return problems;
+}
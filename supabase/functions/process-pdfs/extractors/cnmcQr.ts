@@ -0,0 +1,36 @@
+import jsQR from 'https://esm.sh/jsqr@1.4.0'
+import type { Extractor } from './types.ts'
+import { decodePageImages } from './pdfImages.ts'
+import { isCnmcUrl, mapCnmcUrl, splitByComparatorUrl, validateCnmcResults } from './cnmcParams.ts'
+
+// Decodes the comparator QR code that bills print as an image
+export const cnmcQrExtractor: Extractor<string> = {
+  name: 'cnmc-qr',
+  version: '1.8.0',
+  source: 'qr_code',
+
+  async detect({ pdfDoc }) {
+    if (!pdfDoc) return [];
+
+    const cnmcUrls: { pageIndex: number; url: string }[] = [];
+
+    for (const image of decodePageImages(pdfDoc)) {
+      const code = jsQR(image.data, image.width, image.height);
+      if (!code?.data) continue;
+
+      console.log(`Found QR code in image ${image.name} on page ${image.pageIndex + 1}:`, code.data);
+      if (isCnmcUrl(code.data)) {
+        cnmcUrls.push({ pageIndex: image.pageIndex, url: code.data });
+      }
+    }
+
+    return splitByComparatorUrl(cnmcUrls, pdfDoc.getPageCount());
+  },
+
+  async extract(cnmcUrl) {
+    console.log('Found CNMC URL in QR code:', cnmcUrl);
+    return mapCnmcUrl(cnmcUrl);
+  },
+
+  validate: validateCnmcResults
+};
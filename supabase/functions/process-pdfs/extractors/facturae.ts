@@ -0,0 +1,334 @@
+import { XMLParser } from 'https://esm.sh/fast-xml-parser@4.5.0'
+import type { FieldProvenanceMap, InvoiceLineItem, InvoiceResults, InvoiceTax } from '../types.ts'
+import { Decimal } from '../decimal.ts'
+import { MISSING_FIELD } from '../provenance.ts'
+import type { Attachment, ExtractedInvoice, Extractor } from './types.ts'
+
+type XmlNode = { [key: string]: XmlValue };
+type XmlValue = string | XmlNode | XmlValue[];
+
+// One invoice of a Facturae file, with the parties the file declares once
+interface FacturaeInvoice {
+  parties: XmlValue | undefined;
+  invoice: XmlNode;
+}
+
+const FACTURAE_ROOT = /<(?:[\w-]+:)?Facturae[\s>]/;
+const CUPS_PATTERN = /\bES\s?\d{4}\s?\d{4}\s?\d{4}\s?\d{4}\s?[A-Z]{2}(?:\s?\d[FPCRXYZ])?\b/;
+
+// Facturae 3.2 TaxTypeCode values seen on energy bills
+const TAX_TYPES: Record<string, string> = {
+  '01': 'IVA',
+  '02': 'IPSI',
+  '03': 'IGIC',
+  '04': 'IRPF',
+  '05': 'Otro',
+  '06': 'ITPAJD',
+  '07': 'IE',
+};
+
+// Values come from the document the supplier issued, not from scraping it
+const XML_CONFIDENCE = 1;
+// The buyer's registered address is usually, but not always, the supply address
+const BUYER_ADDRESS_CONFIDENCE = 0.7;
+
+const parser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: true,
+  parseTagValue: false,
+  // Repeatable elements are always arrays, even with a single entry
+  isArray: (name: string) => ['Invoice', 'InvoiceLine', 'Tax'].includes(name)
+});
+
+function isNode(value: XmlValue | undefined): value is XmlNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function child(node: XmlValue | undefined, path: string): XmlValue | undefined {
+  return path.split('/').reduce<XmlValue | undefined>((current, key) => isNode(current) ? current[key] : undefined, node);
+}
+
+function text(node: XmlValue | undefined, path: string): string | null {
+  const value = child(node, path);
+  return typeof value === 'string' && value !== '' ? value : null;
+}
+
+function list(node: XmlValue | undefined, path: string): XmlNode[] {
+  const value = child(node, path);
+  if (Array.isArray(value)) return value.filter(isNode);
+  return isNode(value) ? [value] : [];
+}
+
+// Facturae amounts always use a dot as decimal separator
+function toDecimal(value: string | null): Decimal | null {
+  return value === null ? null : Decimal.parse(value);
+}
+
+// Every text value below the node, with its path
+function* textLeaves(node: XmlValue, path: string): Generator<[string, string]> {
+  if (typeof node === 'string') {
+    yield [path, node];
+  } else if (Array.isArray(node)) {
+    for (const item of node) yield* textLeaves(item, path);
+  } else {
+    for (const [key, value] of Object.entries(node)) yield* textLeaves(value, path ? `${path}/${key}` : key);
+  }
+}
+
+// Honours the encoding in the XML declaration, which Spanish suppliers often
+// set to ISO-8859-1
+function decodeXml(data: Uint8Array): string {
+  const declaration = new TextDecoder('latin1').decode(data.subarray(0, 200));
+  const encoding = declaration.match(/encoding=["']([\w-]+)["']/i)?.[1] ?? 'utf-8';
+  try {
+    return new TextDecoder(encoding).decode(data);
+  } catch {
+    return new TextDecoder().decode(data);
+  }
+}
+
+function readPartyName(party: XmlValue | undefined): string | null {
+  const corporateName = text(party, 'LegalEntity/CorporateName');
+  if (corporateName) return corporateName;
+
+  const names = ['Name', 'FirstSurname', 'SecondSurname']
+    .map(field => text(party, `Individual/${field}`))
+    .filter((name): name is string => name !== null);
+  return names.length > 0 ? names.join(' ') : null;
+}
+
+export function parseFacturae(attachment: Attachment): FacturaeInvoice[] {
+  const xml = decodeXml(attachment.data);
+  if (!FACTURAE_ROOT.test(xml)) return [];
+
+  const root = child(parser.parse(xml), 'Facturae');
+  const parties = child(root, 'Parties');
+  return list(root, 'Invoices/Invoice').map(invoice => ({ parties, invoice }));
+}
+
+// Reads result fields from the XML, recording the element path of each value
+function createXmlReader() {
+  const provenance: FieldProvenanceMap = {};
+
+  const set = <T extends string | Decimal | null>(field: string, value: T, param: string, confidence = XML_CONFIDENCE): T => {
+    provenance[field] = value === null ? MISSING_FIELD : { value, source: 'xml', param, confidence };
+    return value;
+  };
+
+  const string = (field: string, node: XmlValue | undefined, path: string, prefix = ''): string | null =>
+    set(field, text(node, path), prefix + path);
+
+  const number = (field: string, node: XmlValue | undefined, path: string, prefix = ''): Decimal | null => {
+    const raw = text(node, path);
+    const value = toDecimal(raw);
+    if (raw !== null && value === null) {
+      provenance[field] = { value: null, source: 'xml', param: prefix + path, raw, confidence: 0 };
+      return null;
+    }
+    return set(field, value, prefix + path);
+  };
+
+  const missing = (field: string): null => {
+    provenance[field] = MISSING_FIELD;
+    return null;
+  };
+
+  // Lists are recorded by their length
+  const items = <T>(field: string, values: T[], param: string): T[] => {
+    provenance[field] = { value: values.length, source: 'xml', param, confidence: XML_CONFIDENCE };
+    return values;
+  };
+
+  return { set, string, number, missing, items, provenance };
+}
+
+function readTaxes(invoice: XmlNode): InvoiceTax[] {
+  return list(invoice, 'TaxesOutputs/Tax').map(tax => {
+    const typeCode = text(tax, 'TaxTypeCode') ?? '';
+    return {
+      type_code: typeCode,
+      type: TAX_TYPES[typeCode] ?? null,
+      rate: toDecimal(text(tax, 'TaxRate')),
+      base: toDecimal(text(tax, 'TaxableBase/TotalAmount')),
+      amount: toDecimal(text(tax, 'TaxAmount/TotalAmount'))
+    };
+  });
+}
+
+function readLineItems(invoice: XmlNode): InvoiceLineItem[] {
+  return list(invoice, 'Items/InvoiceLine').map(line => ({
+    description: text(line, 'ItemDescription'),
+    quantity: toDecimal(text(line, 'Quantity')),
+    unit_price: toDecimal(text(line, 'UnitPriceWithoutTax')),
+    amount: toDecimal(text(line, 'GrossAmount') ?? text(line, 'TotalCost'))
+  }));
+}
+
+// Facturae has no CUPS element; suppliers put it in line descriptions or
+// the additional information
+function findCups(invoice: XmlNode): { cups: string; path: string } | null {
+  for (const [path, value] of textLeaves(invoice, '')) {
+    const match = value.match(CUPS_PATTERN);
+    if (match) return { cups: match[0].replace(/\s/g, ''), path };
+  }
+  return null;
+}
+
+function isGasInvoice(invoice: XmlNode): boolean {
+  return [...textLeaves(invoice, '')].some(([path, value]) =>
+    /ItemDescription|AdditionalInformation/.test(path) && /\bgas\b/i.test(value)
+  );
+}
+
+// Maps one Facturae invoice to the results the other extractors produce,
+// plus the parties, taxes and line items only e-invoices carry
+export function mapFacturaeInvoice({ parties, invoice }: FacturaeInvoice): ExtractedInvoice {
+  const read = createXmlReader();
+  const seller = child(parties, 'SellerParty');
+  const buyer = child(parties, 'BuyerParty');
+  const cups = findCups(invoice);
+
+  const buyerPostCode = text(buyer, 'LegalEntity/AddressInSpain/PostCode') ?? text(buyer, 'Individual/AddressInSpain/PostCode');
+
+  const common = {
+    cnmc_url: read.missing('cnmc_url'),
+    invoice_number: read.string('invoice_number', invoice, 'InvoiceHeader/InvoiceNumber'),
+    invoice_series: read.string('invoice_series', invoice, 'InvoiceHeader/InvoiceSeriesCode'),
+    issuer_tax_id: read.string('issuer_tax_id', seller, 'TaxIdentification/TaxIdentificationNumber', 'SellerParty/'),
+    issuer_name: read.set('issuer_name', readPartyName(seller), 'SellerParty'),
+    buyer_tax_id: read.string('buyer_tax_id', buyer, 'TaxIdentification/TaxIdentificationNumber', 'BuyerParty/'),
+    buyer_name: read.set('buyer_name', readPartyName(buyer), 'BuyerParty'),
+    postal_code: read.set('postal_code', buyerPostCode, 'BuyerParty/AddressInSpain/PostCode', BUYER_ADDRESS_CONFIDENCE),
+    billing_start_date: read.string('billing_start_date', invoice, 'InvoiceIssueData/InvoicingPeriod/StartDate'),
+    billing_end_date: read.string('billing_end_date', invoice, 'InvoiceIssueData/InvoicingPeriod/EndDate'),
+    invoice_date: read.string('invoice_date', invoice, 'InvoiceIssueData/IssueDate'),
+  };
+
+  const totals = {
+    tax_base: read.number('tax_base', invoice, 'InvoiceTotals/TotalGrossAmountBeforeTaxes'),
+    tax_amount: read.number('tax_amount', invoice, 'InvoiceTotals/TotalTaxOutputs'),
+    discount: read.number('discount', invoice, 'InvoiceTotals/TotalGeneralDiscounts'),
+    total_amount: read.number('total_amount', invoice, 'InvoiceTotals/InvoiceTotal'),
+  };
+
+  const supply = {
+    cups: read.set('cups', cups?.cups ?? null, cups?.path ?? ''),
+    tariff_code: read.missing('tariff_code'),
+    marketer_code: read.missing('marketer_code'),
+    has_permanence: read.missing('has_permanence'),
+  };
+
+  const details = {
+    taxes: read.items('taxes', readTaxes(invoice), 'TaxesOutputs/Tax'),
+    line_items: read.items('line_items', readLineItems(invoice), 'Items/InvoiceLine'),
+  };
+
+  const results: InvoiceResults = isGasInvoice(invoice)
+    ? {
+      document_type: 'gas',
+      ...common,
+      consumption_kwh: read.missing('consumption_kwh'),
+      fixed_term_rate: read.missing('fixed_term_rate'),
+      variable_term_rate: read.missing('variable_term_rate'),
+      fixed_term_cost: read.missing('fixed_term_cost'),
+      variable_term_cost: read.missing('variable_term_cost'),
+      meter_rental_cost: read.missing('meter_rental_cost'),
+      ...totals,
+      ...supply,
+      tariff_band: read.missing('tariff_band'),
+      ...details
+    }
+    : {
+      document_type: 'electricity',
+      ...common,
+      contracted_power_p1: read.missing('contracted_power_p1'),
+      contracted_power_p2: read.missing('contracted_power_p2'),
+      contracted_power_p3: read.missing('contracted_power_p3'),
+      contracted_power_p4: read.missing('contracted_power_p4'),
+      contracted_power_p5: read.missing('contracted_power_p5'),
+      contracted_power_p6: read.missing('contracted_power_p6'),
+      max_power_p1: read.missing('max_power_p1'),
+      max_power_p2: read.missing('max_power_p2'),
+      max_power_p3: read.missing('max_power_p3'),
+      max_power_p4: read.missing('max_power_p4'),
+      max_power_p5: read.missing('max_power_p5'),
+      max_power_p6: read.missing('max_power_p6'),
+      consumption_p1: read.missing('consumption_p1'),
+      consumption_p2: read.missing('consumption_p2'),
+      consumption_p3: read.missing('consumption_p3'),
+      consumption_p4: read.missing('consumption_p4'),
+      consumption_p5: read.missing('consumption_p5'),
+      consumption_p6: read.missing('consumption_p6'),
+      contract_start_date: read.missing('contract_start_date'),
+      contract_end_date: read.missing('contract_end_date'),
+      power_cost: read.missing('power_cost'),
+      energy_cost: read.missing('energy_cost'),
+      ...totals,
+      additional_services_cost: read.missing('additional_services_cost'),
+      other_costs_with_tax: read.missing('other_costs_with_tax'),
+      other_costs_without_tax: read.missing('other_costs_without_tax'),
+      // Suppliers bill it as a line or as tax 07, never in a fixed place
+      electricity_tax: read.missing('electricity_tax'),
+      power_rate_p1: read.missing('power_rate_p1'),
+      power_rate_p2: read.missing('power_rate_p2'),
+      power_rate_p3: read.missing('power_rate_p3'),
+      power_rate_p4: read.missing('power_rate_p4'),
+      power_rate_p5: read.missing('power_rate_p5'),
+      power_rate_p6: read.missing('power_rate_p6'),
+      energy_rate_p1: read.missing('energy_rate_p1'),
+      energy_rate_p2: read.missing('energy_rate_p2'),
+      energy_rate_p3: read.missing('energy_rate_p3'),
+      energy_rate_p4: read.missing('energy_rate_p4'),
+      energy_rate_p5: read.missing('energy_rate_p5'),
+      energy_rate_p6: read.missing('energy_rate_p6'),
+      ...supply,
+      green_energy: read.missing('green_energy'),
+      ...details
+    };
+
+  return { results, provenance: read.provenance };
+}
+
+export function validateFacturaeResults(results: InvoiceResults): string[] {
+  const problems: string[] = [];
+
+  if (!results.invoice_number) {
+    problems.push('Facturae invoice has no invoice number');
+  }
+  if (results.total_amount === null) {
+    problems.push('Facturae invoice has no total');
+  }
+
+  return problems;
+}
+
+// Facturae e-invoices embedded in a PDF or uploaded on their own. They are
+// what the supplier declared to the tax agency, so they win over scraping.
+export const facturaeExtractor: Extractor<FacturaeInvoice> = {
+  name: 'facturae',
+  version: '1.2.0',
+  source: 'e_invoice',
+
+  async detect({ pdfDoc, attachments }) {
+    const pageEnd = Math.max((pdfDoc?.getPageCount() ?? 1) - 1, 0);
+
+    return attachments.flatMap(attachment => {
+      try {
+        const invoices = parseFacturae(attachment);
+        if (invoices.length > 0) {
+          console.log(`Found Facturae ${attachment.name} with ${invoices.length} invoice(s)`);
+        }
+        return invoices.map(match => ({ match, pageStart: 0, pageEnd }));
+      } catch (error) {
+        console.warn(`Could not parse attachment ${attachment.name} as Facturae:`, error);
+        return [];
+      }
+    });
+  },
+
+  async extract(invoice) {
+    return mapFacturaeInvoice(invoice);
+  },
+
+  validate: validateFacturaeResults
+};
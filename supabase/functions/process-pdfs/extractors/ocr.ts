@@ -0,0 +1,112 @@
+import type { PDFDocument } from "https://cdn.skypack.dev/pdf-lib?dts"
+import type { FieldProvenance } from '../types.ts'
+import type { Attachment, ExtractedInvoice, Extractor } from './types.ts'
+import { recognizeText } from './ocrEngine.ts'
+import { decodePageImage, listPageImages } from './pdfImages.ts'
+import { extractPageTexts } from './pdfText.ts'
+import { mapInvoiceText, validateTextResults } from './textLayer.ts'
+import { decodeImage, detectImageFormat } from './uploadedImages.ts'
+
+// Pages with less text than this are taken to be scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// OCR is slow, a bill rarely runs longer than this
+const MAX_OCR_PAGES = 8;
+
+// Recognised text is less reliable than a text layer, so matches count for less
+const OCR_CONFIDENCE_FACTOR = 0.75;
+
+// What detect found to read: the pages of a PDF without a text layer, or
+// the uploaded photos
+type ScannedInput =
+  | { kind: 'pages'; pdfDoc: PDFDocument; pageIndexes: number[] }
+  | { kind: 'images'; images: Attachment[] };
+
+// Pages with little text but an image to read are taken to be scans
+function findScannedPages(pdfDoc: PDFDocument): number[] {
+  const imagePages = new Set(listPageImages(pdfDoc).map(image => image.pageIndex));
+
+  return extractPageTexts(pdfDoc)
+    .map((text, pageIndex) => ({ text, pageIndex }))
+    .filter(({ text, pageIndex }) => imagePages.has(pageIndex) && text.replace(/\s/g, '').length < MIN_TEXT_LAYER_CHARS)
+    .map(({ pageIndex }) => pageIndex)
+    .slice(0, MAX_OCR_PAGES);
+}
+
+// Replaces the text of the scanned pages by OCR of their largest image
+async function readScannedPages(pdfDoc: PDFDocument, scannedPages: number[]): Promise<string[]> {
+  const pageTexts = extractPageTexts(pdfDoc);
+
+  // Only the image that is read is decoded, one page at a time
+  const images = listPageImages(pdfDoc);
+  for (const pageIndex of scannedPages) {
+    const candidates = images
+      .filter(image => image.pageIndex === pageIndex)
+      .sort((a, b) => b.width * b.height - a.width * a.height);
+
+    for (const candidate of candidates) {
+      const image = decodePageImage(candidate);
+      if (!image) continue;
+
+      console.log(`Running OCR on page ${pageIndex + 1} (${image.width}x${image.height})`);
+      pageTexts[pageIndex] = await recognizeText(image);
+      break;
+    }
+  }
+  return pageTexts;
+}
+
+// Each uploaded photo counts as one page
+async function readUploadedImages(images: Attachment[]): Promise<string[]> {
+  const pageTexts: string[] = [];
+
+  for (const attachment of images) {
+    const image = await decodeImage(attachment.data);
+    console.log(`Running OCR on ${attachment.name} (${image.width}x${image.height})`);
+    pageTexts.push(await recognizeText(image));
+  }
+  return pageTexts;
+}
+
+function markAsOcr({ results, provenance }: ExtractedInvoice): ExtractedInvoice {
+  return {
+    results,
+    provenance: Object.fromEntries(Object.entries(provenance).map(([field, entry]): [string, FieldProvenance] => [
+      field,
+      entry.source === 'text' ? { ...entry, source: 'ocr', confidence: entry.confidence * OCR_CONFIDENCE_FACTOR } : entry
+    ]))
+  };
+}
+
+// Photos and scanned bills: the recognised text goes through the same
+// field patterns as a PDF text layer. Detection only looks for pages without
+// a text layer, recognition waits for extract.
+export const ocrExtractor: Extractor<ScannedInput> = {
+  name: 'ocr',
+  version: '1.5.0',
+  source: 'ocr',
+
+  async detect({ pdfDoc, attachments }) {
+    if (pdfDoc) {
+      const pageIndexes = findScannedPages(pdfDoc);
+      if (pageIndexes.length === 0) return [];
+
+      return [{ match: { kind: 'pages', pdfDoc, pageIndexes }, pageStart: 0, pageEnd: pdfDoc.getPageCount() - 1 }];
+    }
+
+    const images = attachments.filter(attachment => detectImageFormat(attachment.data)).slice(0, MAX_OCR_PAGES);
+    if (images.length === 0) return [];
+
+    return [{ match: { kind: 'images', images }, pageStart: 0, pageEnd: images.length - 1 }];
+  },
+
+  async extract(input) {
+    const pageTexts = input.kind === 'pages'
+      ? await readScannedPages(input.pdfDoc, input.pageIndexes)
+      : await readUploadedImages(input.images);
+
+    return markAsOcr(mapInvoiceText(pageTexts));
+  },
+
+  validate: validateTextResults
+};
@@ -0,0 +1,112 @@
+import { createOCREngine, type OCREngine } from 'https://esm.sh/tesseract-wasm@0.11.0'
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8ClampedArray;
+}
+
+// Shipped with the function (static_files in supabase/config.toml), so OCR
+// never downloads the engine or the Spanish model at runtime
+const WASM_URL = new URL('../data/ocr/tesseract-core.wasm', import.meta.url);
+const MODEL_URL = new URL('../data/ocr/spa.traineddata.gz', import.meta.url);
+
+// Bills are legible well below this; larger photos only cost memory and time
+const MAX_OCR_PIXELS = 12 * 1000 * 1000;
+
+// Orientation detection is a guess, only act on it when it is fairly sure
+const MIN_ORIENTATION_CONFIDENCE = 0.5;
+
+let enginePromise: Promise<OCREngine> | null = null;
+
+async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Loading the model takes a few seconds, so the engine is kept for the
+// lifetime of the worker. A failed load is retried on the next call.
+function getEngine(): Promise<OCREngine> {
+  enginePromise ??= (async () => {
+    const engine = await createOCREngine({ wasmBinary: await Deno.readFile(WASM_URL) });
+    engine.loadModel(await gunzip(await Deno.readFile(MODEL_URL)));
+    return engine;
+  })().catch(error => {
+    enginePromise = null;
+    throw error;
+  });
+  return enginePromise;
+}
+
+// Averages blocks of pixels so the image fits in MAX_OCR_PIXELS
+function downscale(image: RgbaImage): RgbaImage {
+  const factor = Math.ceil(Math.sqrt(image.width * image.height / MAX_OCR_PIXELS));
+  if (factor <= 1) return image;
+
+  const width = Math.floor(image.width / factor);
+  const height = Math.floor(image.height / factor);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const blockSize = factor * factor;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let channel = 0; channel < 4; channel++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          const row = (y * factor + dy) * image.width;
+          for (let dx = 0; dx < factor; dx++) {
+            sum += image.data[(row + x * factor + dx) * 4 + channel];
+          }
+        }
+        data[(y * width + x) * 4 + channel] = sum / blockSize;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+// Rotates counter-clockwise by a multiple of 90 degrees, which is how
+// Tesseract reports the correction an image needs
+function rotate(image: RgbaImage, degrees: number): RgbaImage {
+  const turns = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  if (turns === 0) return image;
+
+  const { width, height } = image;
+  const swap = turns % 2 === 1;
+  const rotatedWidth = swap ? height : width;
+  const rotatedHeight = swap ? width : height;
+  const pixels = new Uint32Array(image.data.buffer, image.data.byteOffset, width * height);
+  const rotated = new Uint32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [rx, ry] = turns === 1
+        ? [y, width - 1 - x]
+        : turns === 2
+          ? [width - 1 - x, height - 1 - y]
+          : [height - 1 - y, x];
+      rotated[ry * rotatedWidth + rx] = pixels[y * width + x];
+    }
+  }
+  return { width: rotatedWidth, height: rotatedHeight, data: new Uint8ClampedArray(rotated.buffer) };
+}
+
+/**
+ * Reads the text in an image with Tesseract and the bundled Spanish model.
+ * Photos taken sideways or upside down are turned upright first.
+ */
+export async function recognizeText(image: RgbaImage): Promise<string> {
+  const engine = await getEngine();
+  let input = downscale(image);
+  engine.loadImage(input as ImageData);
+
+  const orientation = engine.getOrientation();
+  if (orientation.rotation !== 0 && orientation.confidence >= MIN_ORIENTATION_CONFIDENCE) {
+    console.log(`Rotating image by ${orientation.rotation} degrees before OCR`);
+    input = rotate(input, orientation.rotation);
+    engine.loadImage(input as ImageData);
+  }
+
+  return engine.getText();
+}
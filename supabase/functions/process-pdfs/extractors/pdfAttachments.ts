@@ -0,0 +1,88 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFString,
+  decodePDFRawStream,
+} from "https://cdn.skypack.dev/pdf-lib?dts"
+import type { Attachment } from './types.ts'
+
+// Bounds the walk through a malformed or cyclic name tree
+const MAX_NAME_TREE_DEPTH = 32;
+
+// Collects the values of a name tree, following Kids down to the leaves
+function collectNameTreeValues(node: PDFDict, depth = 0): PDFDict[] {
+  if (depth > MAX_NAME_TREE_DEPTH) return [];
+
+  const values: PDFDict[] = [];
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    // Alternating key, value pairs
+    for (let i = 1; i < names.size(); i += 2) {
+      const value = names.lookup(i);
+      if (value instanceof PDFDict) values.push(value);
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  for (let i = 0; i < (kids?.size() ?? 0); i++) {
+    const kid = kids!.lookup(i);
+    if (kid instanceof PDFDict) values.push(...collectNameTreeValues(kid, depth + 1));
+  }
+  return values;
+}
+
+// File specifications attached to pages as FileAttachment annotations
+function collectAnnotationFileSpecs(pdfDoc: PDFDocument): PDFDict[] {
+  const fileSpecs: PDFDict[] = [];
+
+  for (const page of pdfDoc.getPages()) {
+    const annotations = page.node.Annots();
+    for (let i = 0; i < (annotations?.size() ?? 0); i++) {
+      const annot = annotations!.lookupMaybe(i, PDFDict);
+      if (annot?.get(PDFName.of('Subtype')) !== PDFName.of('FileAttachment')) continue;
+
+      const fileSpec = annot.lookupMaybe(PDFName.of('FS'), PDFDict);
+      if (fileSpec) fileSpecs.push(fileSpec);
+    }
+  }
+  return fileSpecs;
+}
+
+function readFileSpec(fileSpec: PDFDict): Attachment | null {
+  const name = fileSpec.lookupMaybe(PDFName.of('UF'), PDFString, PDFHexString)
+    ?? fileSpec.lookupMaybe(PDFName.of('F'), PDFString, PDFHexString);
+  const embedded = fileSpec.lookupMaybe(PDFName.of('EF'), PDFDict);
+  const stream = embedded?.lookup(PDFName.of('UF')) ?? embedded?.lookup(PDFName.of('F'));
+
+  if (!(stream instanceof PDFRawStream)) return null;
+
+  try {
+    return { name: name?.decodeText() ?? 'attachment', data: decodePDFRawStream(stream).decode() };
+  } catch (error) {
+    console.warn(`Could not decode embedded file ${name?.decodeText() ?? ''}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Returns the files embedded in the document, from both the EmbeddedFiles
+ * name tree and page file attachment annotations. The same file listed in
+ * both places is only returned once.
+ */
+export function getEmbeddedFiles(pdfDoc: PDFDocument): Attachment[] {
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const embeddedFiles = names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+
+  const fileSpecs = new Set([
+    ...(embeddedFiles ? collectNameTreeValues(embeddedFiles) : []),
+    ...collectAnnotationFileSpecs(pdfDoc)
+  ]);
+
+  return [...fileSpecs]
+    .map(readFileSpec)
+    .filter((attachment): attachment is Attachment => attachment !== null);
+}
@@ -0,0 +1,26 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { PDFDocument } from "https://cdn.skypack.dev/pdf-lib?dts"
+import { decodePageImages, listPageImages } from './pdfImages.ts'
+
+// Two pages written with pdf-lib that both draw the same 40×40 JPEG, a single
+// image XObject referenced from each page's resources
+async function loadFixture(): Promise<PDFDocument> {
+  const bytes = await Deno.readFile(new URL('../testdata/shared-image.pdf', import.meta.url));
+  return PDFDocument.load(bytes, { updateMetadata: false });
+}
+
+Deno.test('an image shared by two pages is listed for each page', async () => {
+  const images = listPageImages(await loadFixture());
+
+  assertEquals(images.map(image => image.pageIndex), [0, 1]);
+  assertEquals(images[0].stream, images[1].stream);
+});
+
+Deno.test('an image shared by two pages is decoded for each page', async () => {
+  const images = [...decodePageImages(await loadFixture())];
+
+  assertEquals(images.map(({ pageIndex, width, height }) => ({ pageIndex, width, height })), [
+    { pageIndex: 0, width: 40, height: 40 },
+    { pageIndex: 1, width: 40, height: 40 },
+  ]);
+});
@@ -0,0 +1,240 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  decodePDFRawStream,
+} from "https://cdn.skypack.dev/pdf-lib?dts"
+import jpeg from 'https://esm.sh/jpeg-js@0.4.4'
+
+// An image XObject of a page, not decoded yet
+export interface PageImageSource {
+  pageIndex: number;
+  name: string;
+  width: number;
+  height: number;
+  stream: PDFRawStream;
+}
+
+export interface PageImage {
+  pageIndex: number;
+  name: string;
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8ClampedArray;
+}
+
+// Images outside these bounds cannot hold a readable QR code or would cost
+// too much memory to rasterise
+const MIN_IMAGE_SIZE = 21;
+const MAX_IMAGE_PIXELS = 4096 * 4096;
+
+function getFilters(dict: PDFDict): PDFName[] {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter];
+  if (filter instanceof PDFArray) return filter.asArray().filter((f): f is PDFName => f instanceof PDFName);
+  return [];
+}
+
+function getNumber(dict: PDFDict, key: string): number | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function isImageMask(dict: PDFDict): boolean {
+  const imageMask = dict.lookup(PDFName.of('ImageMask'));
+  return imageMask instanceof PDFBool && imageMask.asBoolean();
+}
+
+// Number of colour components, or null for colour spaces we do not decode
+function getComponents(dict: PDFDict): number | null {
+  if (isImageMask(dict)) return 1;
+
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray')) return 1;
+  if (colorSpace === PDFName.of('DeviceRGB') || colorSpace === PDFName.of('CalRGB')) return 3;
+  if (colorSpace === PDFName.of('DeviceCMYK')) return 4;
+
+  if (colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('ICCBased')) {
+    const profile = colorSpace.lookup(1);
+    const n = profile instanceof PDFRawStream ? getNumber(profile.dict, 'N') : undefined;
+    return n === 1 || n === 3 || n === 4 ? n : null;
+  }
+
+  return null;
+}
+
+// Reverses the PNG row filters that FlateDecode images commonly use
+function undoPngPredictor(data: Uint8Array, rowBytes: number, bytesPerPixel: number): Uint8Array {
+  const rows = Math.floor(data.length / (rowBytes + 1));
+  const output = new Uint8Array(rows * rowBytes);
+
+  for (let row = 0; row < rows; row++) {
+    const type = data[row * (rowBytes + 1)];
+    const input = row * (rowBytes + 1) + 1;
+    const out = row * rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = data[input + i];
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[out - rowBytes + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[out - rowBytes + i - bytesPerPixel] : 0;
+
+      let value = raw;
+      if (type === 1) value = raw + left;
+      else if (type === 2) value = raw + up;
+      else if (type === 3) value = raw + ((left + up) >> 1);
+      else if (type === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+
+  return output;
+}
+
+function rasterise(stream: PDFRawStream, width: number, height: number): Uint8ClampedArray | null {
+  const { dict } = stream;
+  const filters = getFilters(dict);
+
+  if (filters.some(f => f === PDFName.of('DCTDecode'))) {
+    const decoded = jpeg.decode(stream.contents, { useTArray: true, formatAsRGBA: true });
+    return new Uint8ClampedArray(decoded.data);
+  }
+
+  const isMask = isImageMask(dict);
+  const components = getComponents(dict);
+  const bitsPerComponent = isMask ? 1 : getNumber(dict, 'BitsPerComponent') ?? 8;
+
+  if (components === null || (bitsPerComponent !== 1 && bitsPerComponent !== 8)) return null;
+
+  let samples = decodePDFRawStream(stream).decode();
+  const rowBytes = Math.ceil((width * components * bitsPerComponent) / 8);
+
+  const params = dict.lookup(PDFName.of('DecodeParms'));
+  const predictor = params instanceof PDFDict ? getNumber(params, 'Predictor') ?? 1 : 1;
+  if (predictor >= 10) {
+    samples = undoPngPredictor(samples, rowBytes, Math.max(1, (components * bitsPerComponent) >> 3));
+  }
+
+  // A Decode array of [1 0] flips the meaning of every sample
+  const decode = dict.lookupMaybe(PDFName.of('Decode'), PDFArray);
+  const inverted = decode?.lookupMaybe(0, PDFNumber)?.asNumber() === 1;
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r: number, g: number, b: number;
+
+      if (bitsPerComponent === 1) {
+        const bit = ((samples[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1) === 1;
+        // Image masks paint where the sample is 0, so in both cases a set bit is white
+        r = g = b = bit !== inverted ? 255 : 0;
+      } else {
+        const offset = y * rowBytes + x * components;
+        if (components === 1) {
+          r = g = b = inverted ? 255 - samples[offset] : samples[offset];
+        } else if (components === 3) {
+          r = samples[offset];
+          g = samples[offset + 1];
+          b = samples[offset + 2];
+        } else {
+          const k = samples[offset + 3];
+          r = 255 - Math.min(255, samples[offset] + k);
+          g = 255 - Math.min(255, samples[offset + 1] + k);
+          b = 255 - Math.min(255, samples[offset + 2] + k);
+        }
+      }
+
+      const pixel = (y * width + x) * 4;
+      rgba[pixel] = r;
+      rgba[pixel + 1] = g;
+      rgba[pixel + 2] = b;
+      rgba[pixel + 3] = 255;
+    }
+  }
+
+  return rgba;
+}
+
+// The QR and OCR extractors both look at the images of the same document
+const imageSources = new WeakMap<PDFDocument, PageImageSource[]>();
+
+/**
+ * Lists the image XObjects of every page, including those nested in form
+ * XObjects, without decoding any of them. An image shared by several pages
+ * is listed for each of them. Images too small or too large to be worth
+ * rasterising are left out. Cached per document.
+ */
+export function listPageImages(pdfDoc: PDFDocument): PageImageSource[] {
+  const cached = imageSources.get(pdfDoc);
+  if (cached) return cached;
+
+  const sources: PageImageSource[] = [];
+
+  // `seen` holds the XObjects already visited for the page, which also stops
+  // forms that draw themselves
+  const visit = (resources: PDFDict | undefined, pageIndex: number, seen: Set<PDFRawStream>) => {
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects) return;
+
+    for (const [name, ref] of xObjects.entries()) {
+      const stream = pdfDoc.context.lookup(ref);
+      if (!(stream instanceof PDFRawStream) || seen.has(stream)) continue;
+      seen.add(stream);
+
+      const subtype = stream.dict.lookup(PDFName.of('Subtype'));
+
+      if (subtype === PDFName.of('Form')) {
+        visit(stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), pageIndex, seen);
+        continue;
+      }
+      if (subtype !== PDFName.of('Image')) continue;
+
+      const width = getNumber(stream.dict, 'Width') ?? 0;
+      const height = getNumber(stream.dict, 'Height') ?? 0;
+      if (Math.min(width, height) < MIN_IMAGE_SIZE || width * height > MAX_IMAGE_PIXELS) continue;
+
+      sources.push({ pageIndex, name: name.decodeText(), width, height, stream });
+    }
+  };
+
+  pdfDoc.getPages().forEach((page, index) => visit(page.node.Resources(), index, new Set()));
+
+  imageSources.set(pdfDoc, sources);
+  return sources;
+}
+
+// Returns null for filters or colour spaces we cannot decode (JBIG2, CCITT,
+// Indexed...) and for images that fail to decode
+export function decodePageImage(source: PageImageSource): PageImage | null {
+  const { pageIndex, name, width, height, stream } = source;
+  try {
+    const data = rasterise(stream, width, height);
+    return data ? { pageIndex, name, width, height, data } : null;
+  } catch (error) {
+    console.error(`Failed to decode image ${name} on page ${pageIndex + 1}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Rasterises the images of every page one at a time. An image is only
+ * decoded when the loop reaches it, so at most one decoded image (up to
+ * 64 MB of RGBA) is held at once however many pages a scan has.
+ */
+export function* decodePageImages(pdfDoc: PDFDocument): Generator<PageImage> {
+  for (const source of listPageImages(pdfDoc)) {
+    const image = decodePageImage(source);
+    if (image) yield image;
+  }
+}
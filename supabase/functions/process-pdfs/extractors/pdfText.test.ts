@@ -0,0 +1,27 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { PDFDict, PDFDocument, PDFName } from "https://cdn.skypack.dev/pdf-lib?dts"
+import { extractPageTexts } from './pdfText.ts'
+
+// One page written with pdfkit in DejaVu Sans, which it embeds as a Type0
+// font with Identity-H encoding: the strings are glyph ids that only the
+// font's ToUnicode CMap turns into text.
+async function loadFixture(): Promise<PDFDocument> {
+  const bytes = await Deno.readFile(new URL('../testdata/identity-h.pdf', import.meta.url));
+  return PDFDocument.load(bytes, { updateMetadata: false });
+}
+
+Deno.test('text in an Identity-H font is decoded with its ToUnicode CMap', async () => {
+  const [text] = extractPageTexts(await loadFixture());
+
+  assert(text.includes('Término de energía: 33,23 €'), text);
+  assert(text.includes('Total a pagar: 62,82 €'), text);
+});
+
+Deno.test('text in an Identity-H font without a ToUnicode CMap counts as missing', async () => {
+  const pdfDoc = await loadFixture();
+  for (const [, object] of pdfDoc.context.enumerateIndirectObjects()) {
+    if (object instanceof PDFDict) object.delete(PDFName.of('ToUnicode'));
+  }
+
+  assertEquals(extractPageTexts(pdfDoc), ['']);
+});
@@ -0,0 +1,374 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFStream,
+  decodePDFRawStream,
+} from "https://cdn.skypack.dev/pdf-lib?dts"
+
+// WinAnsiEncoding differs from Latin-1 in the 0x80-0x9F range; these are the
+// code points that matter for Spanish bills
+const WIN_ANSI_OVERRIDES: Record<number, string> = {
+  0x80: '€',
+  0x91: '‘',
+  0x92: '’',
+  0x93: '“',
+  0x94: '”',
+  0x96: '–',
+  0x97: '—',
+};
+
+const WHITESPACE = /[\s\0]/;
+const DELIMITER = /[()<>[\]{}/%]/;
+
+// Drawn for a character code its font gives no Unicode value for
+const UNMAPPED = '\uFFFD';
+// A page whose text is mostly unmapped codes is treated as having none, so
+// that OCR reads it instead
+const MAX_UNMAPPED_SHARE = 0.5;
+
+// How the strings a font draws are turned into text. Composite (Type0)
+// fonts draw two byte codes, mostly glyph ids that only the ToUnicode CMap
+// maps to characters.
+interface FontEncoding {
+  codeLength: 1 | 2;
+  toUnicode: Map<number, string> | null;
+}
+
+const fontEncodings = new WeakMap<PDFDict, FontEncoding>();
+
+function bytesToText(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  return bytes.map(b => WIN_ANSI_OVERRIDES[b] ?? String.fromCharCode(b)).join('');
+}
+
+// One char per byte, so operators and string bytes survive untouched
+function toBinaryString(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+}
+
+function getStreamBytes(stream: PDFObject | undefined): Uint8Array {
+  if (stream instanceof PDFRawStream) {
+    return decodePDFRawStream(stream).decode();
+  }
+  return stream instanceof PDFStream ? stream.getContents() : new Uint8Array();
+}
+
+function getContentStreams(pdfDoc: PDFDocument, page: PDFPage): Uint8Array[] {
+  const contents = page.node.Contents();
+  if (!contents) return [];
+
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => pdfDoc.context.lookup(ref))
+    : [contents];
+
+  return streams.map(getStreamBytes);
+}
+
+// UTF-16BE, as CMaps write destination strings
+function hexToText(hex: string): string {
+  let text = '';
+  for (let i = 0; i + 3 < hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text;
+}
+
+/**
+ * Reads the bfchar and bfrange mappings of a ToUnicode CMap. A range maps
+ * to consecutive characters from its first destination, or to each entry
+ * of a destination array.
+ */
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+  const tokens = (section: string) => [...section.matchAll(/<([0-9A-Fa-f\s]*)>|\[|\]/g)]
+    .map(match => match[1]?.replace(/\s/g, '') ?? match[0]);
+
+  for (const [, section] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    const entries = tokens(section);
+    for (let i = 0; i + 1 < entries.length; i += 2) {
+      map.set(parseInt(entries[i], 16), hexToText(entries[i + 1]));
+    }
+  }
+
+  for (const [, section] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = tokens(section);
+    let i = 0;
+    while (i + 2 < entries.length) {
+      const first = parseInt(entries[i], 16);
+      const last = parseInt(entries[i + 1], 16);
+      i += 2;
+
+      if (entries[i] === '[') {
+        for (let code = first; entries[++i] !== ']' && i < entries.length; code++) {
+          map.set(code, hexToText(entries[i]));
+        }
+        i++;
+      } else {
+        const destination = hexToText(entries[i++]);
+        const base = destination.charCodeAt(destination.length - 1);
+        for (let code = first; code <= last && code - first <= 0xffff; code++) {
+          map.set(code, destination.slice(0, -1) + String.fromCharCode(base + code - first));
+        }
+      }
+    }
+  }
+
+  return map;
+}
+
+function getFontEncoding(font: PDFDict): FontEncoding {
+  const cached = fontEncodings.get(font);
+  if (cached) return cached;
+
+  const toUnicode = font.lookup(PDFName.of('ToUnicode'));
+  const encoding: FontEncoding = {
+    codeLength: font.lookup(PDFName.of('Subtype')) === PDFName.of('Type0') ? 2 : 1,
+    toUnicode: toUnicode instanceof PDFStream ? parseToUnicode(toBinaryString(getStreamBytes(toUnicode))) : null
+  };
+  fontEncodings.set(font, encoding);
+  return encoding;
+}
+
+// The fonts of a page by resource name
+function getPageFonts(pdfDoc: PDFDocument, page: PDFPage): Map<string, FontEncoding> {
+  const fonts = new Map<string, FontEncoding>();
+  const fontDict = page.node.Resources()?.lookup(PDFName.of('Font'));
+  if (!(fontDict instanceof PDFDict)) return fonts;
+
+  for (const [name, ref] of fontDict.entries()) {
+    const font = pdfDoc.context.lookup(ref);
+    if (font instanceof PDFDict) {
+      fonts.set(name.decodeText(), getFontEncoding(font));
+    }
+  }
+  return fonts;
+}
+
+// Turns the bytes of a string operand into text with the font drawing it.
+// Codes a simple font does not map are read as WinAnsi.
+function decodeString(bytes: string, font: FontEncoding | null): string {
+  if (!font || (font.codeLength === 1 && !font.toUnicode)) {
+    return bytesToText([...bytes].map(ch => ch.charCodeAt(0)));
+  }
+
+  let text = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2
+      ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1)
+      : bytes.charCodeAt(i);
+    const mapped = font.toUnicode?.get(code);
+    if (mapped !== undefined) {
+      text += mapped;
+    } else {
+      text += font.codeLength === 1 ? bytesToText([code]) : UNMAPPED;
+    }
+  }
+  return text;
+}
+
+interface NameOperand {
+  name: string;
+}
+
+type Operand = string | number | NameOperand | Operand[];
+
+/**
+ * Walks a decoded content stream and returns the text drawn by the
+ * Tj / TJ / ' / " operators, inserting line breaks on text positioning.
+ * Strings are decoded with the ToUnicode CMap of the font set by Tf, or
+ * read as WinAnsi or UTF-16BE when it has none.
+ */
+function extractTextFromContent(content: string, fonts: Map<string, FontEncoding>): string {
+  let text = '';
+  let i = 0;
+  const stack: Operand[][] = [[]];
+  const operands = () => stack[stack.length - 1];
+  let font: FontEncoding | null = null;
+  // q and Q save and restore the font along with the rest of the graphics state
+  const savedFonts: (FontEncoding | null)[] = [];
+
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+  const space = () => {
+    if (text && !/\s$/.test(text)) text += ' ';
+  };
+
+  const readLiteral = (): string => {
+    const bytes: number[] = [];
+    let depth = 1;
+    i++;
+    while (i < content.length && depth > 0) {
+      const ch = content[i];
+      if (ch === '\\') {
+        const next = content[++i];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+        if (next in escapes) {
+          bytes.push(escapes[next]);
+        } else if (/[0-7]/.test(next)) {
+          let octal = next;
+          while (octal.length < 3 && /[0-7]/.test(content[i + 1])) octal += content[++i];
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (next === '\r' || next === '\n') {
+          if (next === '\r' && content[i + 1] === '\n') i++;
+        } else {
+          bytes.push(next.charCodeAt(0));
+        }
+      } else {
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (depth > 0) bytes.push(ch.charCodeAt(0));
+      }
+      i++;
+    }
+    return toBinaryString(new Uint8Array(bytes));
+  };
+
+  const readHex = (): string => {
+    const end = content.indexOf('>', i);
+    const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s/g, '');
+    i = end === -1 ? content.length : end + 1;
+    const bytes: number[] = [];
+    for (let j = 0; j < hex.length; j += 2) {
+      bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+    }
+    return toBinaryString(new Uint8Array(bytes));
+  };
+
+  const joinArray = (items: Operand[]) => items.map(item => {
+    if (typeof item === 'string') return decodeString(item, font);
+    // Large negative kerning in a TJ array is how most generators draw spaces
+    if (typeof item === 'number' && item < -200) return ' ';
+    return '';
+  }).join('');
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (WHITESPACE.test(ch)) {
+      i++;
+    } else if (ch === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (ch === '(') {
+      operands().push(readLiteral());
+    } else if (ch === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (BDC properties) are irrelevant for text
+      const end = content.indexOf('>>', i);
+      i = end === -1 ? content.length : end + 2;
+    } else if (ch === '<') {
+      operands().push(readHex());
+    } else if (ch === '[') {
+      stack.push([]);
+      i++;
+    } else if (ch === ']') {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      i++;
+    } else if (ch === '/') {
+      const start = ++i;
+      while (i < content.length && !WHITESPACE.test(content[i]) && !DELIMITER.test(content[i])) i++;
+      const name = content.slice(start, i).replace(/#([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      operands().push({ name });
+    } else {
+      const start = i;
+      while (i < content.length && !WHITESPACE.test(content[i]) && !DELIMITER.test(content[i])) i++;
+      if (i === start) {
+        i++;
+        continue;
+      }
+      const token = content.slice(start, i);
+      const number = Number(token);
+
+      if (!Number.isNaN(number)) {
+        operands().push(number);
+        continue;
+      }
+
+      const args = operands();
+      const last = args[args.length - 1];
+      switch (token) {
+        case 'Tf': {
+          const [name] = args;
+          if (typeof name === 'object' && !Array.isArray(name)) font = fonts.get(name.name) ?? null;
+          break;
+        }
+        case 'q':
+          savedFonts.push(font);
+          break;
+        case 'Q':
+          if (savedFonts.length > 0) font = savedFonts.pop()!;
+          break;
+        case 'Tj':
+          if (typeof last === 'string') text += decodeString(last, font);
+          break;
+        case 'TJ':
+          if (Array.isArray(last)) text += joinArray(last);
+          break;
+        case "'":
+        case '"':
+          newline();
+          if (typeof last === 'string') text += decodeString(last, font);
+          break;
+        case 'Td':
+        case 'TD':
+          if (args[1] !== 0) newline();
+          else space();
+          break;
+        case 'T*':
+        case 'Tm':
+        case 'BT':
+        case 'ET':
+          newline();
+          break;
+        case 'BI': {
+          // Skip inline image data, which is binary and may contain anything
+          const end = content.indexOf('EI', i);
+          i = end === -1 ? content.length : end + 2;
+          break;
+        }
+      }
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+
+  return text;
+}
+
+// Text that is mostly codes without a Unicode value is as good as missing
+function isMostlyUnmapped(text: string): boolean {
+  const characters = text.replace(/\s/g, '');
+  const unmapped = characters.split(UNMAPPED).length - 1;
+  return unmapped > 0 && unmapped / characters.length > MAX_UNMAPPED_SHARE;
+}
+
+// Returns the text of each page, in page order
+export function extractPageTexts(pdfDoc: PDFDocument): string[] {
+  return pdfDoc.getPages().map((page, index) => {
+    try {
+      // A page's content streams are one stream split in parts, so a font
+      // set in one applies to the next
+      const content = getContentStreams(pdfDoc, page).map(toBinaryString).join('\n');
+      const text = extractTextFromContent(content, getPageFonts(pdfDoc, page));
+      return isMostlyUnmapped(text) ? '' : text;
+    } catch (error) {
+      console.error(`Failed to read text of page ${index + 1}:`, error);
+      return '';
+    }
+  });
+}
@@ -0,0 +1,77 @@
+import type { ExtractionContext, ExtractionOutcome, Extractor } from './types.ts'
+import { roundAmounts } from '../amounts.ts'
+import { ProcessingError } from '../errors.ts'
+import { cnmcLinkExtractor } from './cnmcLink.ts'
+import { cnmcQrExtractor } from './cnmcQr.ts'
+import { facturaeExtractor } from './facturae.ts'
+import { ocrExtractor } from './ocr.ts'
+import { textLayerExtractor } from './textLayer.ts'
+
+// Extractors are tried in registration order; the first valid result wins
+const extractors: Extractor[] = [facturaeExtractor, cnmcLinkExtractor, cnmcQrExtractor, textLayerExtractor, ocrExtractor];
+
+export function registerExtractor(extractor: Extractor) {
+  if (extractors.some(e => e.name === extractor.name)) {
+    throw new Error(`Extractor already registered: ${extractor.name}`);
+  }
+  extractors.push(extractor);
+}
+
+export function getExtractors(): readonly Extractor[] {
+  return extractors;
+}
+
+// Returns an empty list when no extractor recognised the document, and throws
+// VALIDATION_FAILED when invoices were found but none passed validation. In a
+// bundled file where some invoices pass, the rejected ones are returned too,
+// carrying their problems, so the file is reviewed rather than cut short.
+export async function runExtractors(context: ExtractionContext): Promise<ExtractionOutcome[]> {
+  const rejections: string[] = [];
+
+  for (const extractor of extractors) {
+    try {
+      const detected = await extractor.detect(context);
+      if (detected.length === 0) continue;
+
+      const outcomes: ExtractionOutcome[] = [];
+
+      for (const { match, pageStart, pageEnd } of detected) {
+        const extracted = await extractor.extract(match, context);
+        // Amounts are rounded the way the invoice states them before anything adds them up
+        const results = roundAmounts(extracted.results);
+        const { provenance, comparatorParams } = extracted;
+        const problems = extractor.validate(results);
+
+        if (problems.length > 0) {
+          console.log(`Extractor ${extractor.name} rejected pages ${pageStart + 1}-${pageEnd + 1} of ${context.fileName}:`, problems);
+          rejections.push(...problems);
+        }
+
+        outcomes.push({
+          extractorName: extractor.name,
+          extractorVersion: extractor.version,
+          source: extractor.source,
+          pageStart,
+          pageEnd,
+          results,
+          provenance,
+          comparatorParams,
+          problems
+        });
+      }
+
+      if (outcomes.some(o => o.problems.length === 0)) {
+        console.log(`Extracted ${outcomes.length} invoice(s) from ${context.fileName} with ${extractor.name}@${extractor.version}`);
+        return outcomes;
+      }
+    } catch (error) {
+      console.error(`Extractor ${extractor.name} failed on ${context.fileName}:`, error);
+    }
+  }
+
+  if (rejections.length > 0) {
+    throw new ProcessingError('VALIDATION_FAILED', `Invoice data failed validation: ${[...new Set(rejections)].join('; ')}`);
+  }
+
+  return [];
+}
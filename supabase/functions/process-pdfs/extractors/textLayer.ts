@@ -0,0 +1,239 @@
+import type { ElectricityInvoiceResults, FieldProvenanceMap, InvoiceDocumentDetails, InvoiceResults } from '../types.ts'
+import { Decimal } from '../decimal.ts'
+import { MISSING_FIELD } from '../provenance.ts'
+import { PERIODS, normalizeTariffCode, type Period } from '../tariffs.ts'
+import type { ExtractedInvoice, Extractor } from './types.ts'
+import { extractPageTexts } from './pdfText.ts'
+
+const NUMBER = '(\\d{1,3}(?:\\.\\d{3})*(?:,\\d+)?|\\d+(?:[.,]\\d+)?)';
+const DATE = '(\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4})';
+
+type TextInvoiceResults = ElectricityInvoiceResults & InvoiceDocumentDetails;
+
+export const CUPS_PATTERN = /\bES\s?\d{4}\s?\d{4}\s?\d{4}\s?\d{4}\s?[A-Z]{2}(?:\s?\d[FPCRXYZ])?\b/;
+
+// 2.0TD bills usually name their periods instead of numbering them
+const POWER_PERIOD_NAMES: Partial<Record<Period, string>> = { 1: 'punta', 2: 'valle' };
+const ENERGY_PERIOD_NAMES: Partial<Record<Period, string>> = { 1: 'punta', 2: 'llano', 3: 'valle' };
+
+function periodLabel(period: Period, names: Partial<Record<Period, string>>) {
+  return names[period] ? `(?:P${period}|${names[period]})` : `P${period}`;
+}
+
+// Tax lines often print the rate and the base before the amount, as in
+// "IVA 21% s/ 51,92 € 10,90 €"
+function taxPattern(label: string) {
+  const rate = `\\d+(?:,\\d+)?\\s*%`;
+  const base = `(?:s\\/|sobre)\\s*${NUMBER.replace('(', '(?:')}\\s*€`;
+  return new RegExp(`${label}[^\\d€]{0,20}?(?:${rate}[^\\d€]{0,20}?)?(?:${base}[^\\d€]{0,10}?)?${NUMBER}\\s*€`, 'i');
+}
+
+// Each field is tried against its patterns in order; the label anchors the
+// value so that unrelated figures on the page are not picked up
+const NUMBER_PATTERNS: Partial<Record<keyof TextInvoiceResults, RegExp[]>> = {
+  ...Object.fromEntries(PERIODS.flatMap(p => [
+    [`contracted_power_p${p}`, [
+      new RegExp(`Potencia\\s+contratada\\s+(?:en\\s+)?${periodLabel(p, POWER_PERIOD_NAMES)}\\b[^\\d]{0,20}${NUMBER}\\s*kW\\b`, 'i'),
+    ]],
+    [`consumption_p${p}`, [
+      new RegExp(`Consumo\\s+(?:en\\s+)?${periodLabel(p, ENERGY_PERIOD_NAMES)}\\b[^\\d]{0,20}${NUMBER}\\s*kWh`, 'i'),
+    ]],
+  ])),
+  power_cost: [
+    new RegExp(`(?:Importe\\s+(?:por\\s+)?)?(?:t[ée]rmino\\s+de\\s+)?potencia\\s+facturada[^\\d]{0,20}${NUMBER}\\s*€`, 'i'),
+  ],
+  energy_cost: [
+    new RegExp(`(?:Importe\\s+(?:por\\s+)?)?(?:t[ée]rmino\\s+de\\s+)?energ[íi]a\\s+(?:activa\\s+)?facturada[^\\d]{0,20}${NUMBER}\\s*€`, 'i'),
+  ],
+  total_amount: [
+    new RegExp(`Total\\s+(?:importe\\s+)?(?:a\\s+pagar|factura)[^\\d]{0,20}${NUMBER}\\s*€`, 'i'),
+    new RegExp(`Importe\\s+total(?:\\s+(?:de\\s+la\\s+)?factura)?[^\\d]{0,20}${NUMBER}\\s*€`, 'i'),
+  ],
+  electricity_tax: [
+    taxPattern('Impuesto\\s+(?:especial\\s+)?(?:sobre\\s+(?:la\\s+)?)?electricidad'),
+  ],
+  // Not "IVA incluido", which labels the total
+  tax_amount: [
+    taxPattern('\\b(?:IVA|IGIC|IPSI)\\b(?!\\s*incl)'),
+  ],
+};
+
+const BILLING_PERIOD_PATTERN = new RegExp(`Periodo\\s+de\\s+facturaci[óo]n[^\\d]{0,20}${DATE}[^\\d]{1,10}${DATE}`, 'i');
+const INVOICE_DATE_PATTERN = new RegExp(`Fecha\\s+(?:de\\s+)?(?:emisi[óo]n\\s+(?:de\\s+)?(?:la\\s+)?)?factura[^\\d]{0,20}${DATE}`, 'i');
+const TARIFF_PATTERN = /\b(?:Peaje|Tarifa)(?:\s+de\s+acceso)?[^\dA-Z]{0,20}(\d\.\d\s?TD(?:VE)?)\b/i;
+const POSTAL_CODE_PATTERN = /\b(?:C\.?P\.?|C[óo]digo\s+postal)[:\s]*(\d{5})\b/i;
+
+// "1.234,56" -> 1234.56; a lone dot with three decimals is a thousands
+// separator. Returns null for anything that is not a number.
+export function parseSpanishNumber(value: string): Decimal | null {
+  const normalized = /,/.test(value) || /\.\d{3}$/.test(value)
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value;
+  return Decimal.parse(normalized);
+}
+
+// dd/mm/yyyy -> yyyy-mm-dd, the format used by the comparator link
+export function toIsoDate(value: string): string {
+  const [day, month, year] = value.split(/[/.-]/);
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+// Text matches are less certain than comparator params, fallback patterns more so
+const PRIMARY_PATTERN_CONFIDENCE = 0.8;
+const FALLBACK_PATTERN_CONFIDENCE = 0.6;
+
+// Reads result fields from page texts, recording the page and offset of each match
+function createTextReader(pageTexts: string[]) {
+  const provenance: FieldProvenanceMap = {};
+
+  const find = (patterns: RegExp[]) => {
+    for (const [patternIndex, pattern] of patterns.entries()) {
+      for (const [pageIndex, text] of pageTexts.entries()) {
+        const match = pattern.exec(text);
+        if (match) {
+          return {
+            match,
+            page: pageIndex + 1,
+            position: match.index,
+            confidence: patternIndex === 0 ? PRIMARY_PATTERN_CONFIDENCE : FALLBACK_PATTERN_CONFIDENCE
+          };
+        }
+      }
+    }
+    return null;
+  };
+
+  const string = (field: string, patterns: RegExp[], pick = (match: RegExpExecArray) => match[1]): string | null => {
+    const found = find(patterns);
+    if (!found) {
+      provenance[field] = MISSING_FIELD;
+      return null;
+    }
+    const value = pick(found.match);
+    provenance[field] = { value, source: 'text', page: found.page, position: found.position, confidence: found.confidence };
+    return value;
+  };
+
+  const number = (field: keyof TextInvoiceResults): Decimal | null => {
+    const found = find(NUMBER_PATTERNS[field] ?? []);
+    if (!found) {
+      provenance[field] = MISSING_FIELD;
+      return null;
+    }
+    const { page, position } = found;
+    const value = parseSpanishNumber(found.match[1]);
+    if (value === null) {
+      provenance[field] = { value: null, source: 'text', raw: found.match[1], page, position, confidence: 0 };
+      return null;
+    }
+    provenance[field] = { value, source: 'text', page, position, confidence: found.confidence };
+    return value;
+  };
+
+  // Fields that bills do not print in a form we can anchor on
+  const missing = (field: string): null => {
+    provenance[field] = MISSING_FIELD;
+    return null;
+  };
+
+  return { string, number, missing, provenance };
+}
+
+// Maps the text of each page to the same results a comparator link produces
+export function mapInvoiceText(pageTexts: string[]): ExtractedInvoice {
+  const read = createTextReader(pageTexts);
+  const tariffCode = read.string('tariff_code', [TARIFF_PATTERN], match => normalizeTariffCode(match[1]) ?? match[1]);
+
+  const results: TextInvoiceResults = {
+    document_type: 'electricity',
+    cnmc_url: null,
+    postal_code: read.string('postal_code', [POSTAL_CODE_PATTERN]),
+    contracted_power_p1: read.number('contracted_power_p1'),
+    contracted_power_p2: read.number('contracted_power_p2'),
+    contracted_power_p3: read.number('contracted_power_p3'),
+    contracted_power_p4: read.number('contracted_power_p4'),
+    contracted_power_p5: read.number('contracted_power_p5'),
+    contracted_power_p6: read.number('contracted_power_p6'),
+    max_power_p1: read.missing('max_power_p1'),
+    max_power_p2: read.missing('max_power_p2'),
+    max_power_p3: read.missing('max_power_p3'),
+    max_power_p4: read.missing('max_power_p4'),
+    max_power_p5: read.missing('max_power_p5'),
+    max_power_p6: read.missing('max_power_p6'),
+    consumption_p1: read.number('consumption_p1'),
+    consumption_p2: read.number('consumption_p2'),
+    consumption_p3: read.number('consumption_p3'),
+    consumption_p4: read.number('consumption_p4'),
+    consumption_p5: read.number('consumption_p5'),
+    consumption_p6: read.number('consumption_p6'),
+    contract_start_date: read.missing('contract_start_date'),
+    contract_end_date: read.missing('contract_end_date'),
+    billing_start_date: read.string('billing_start_date', [BILLING_PERIOD_PATTERN], match => toIsoDate(match[1])),
+    billing_end_date: read.string('billing_end_date', [BILLING_PERIOD_PATTERN], match => toIsoDate(match[2])),
+    invoice_date: read.string('invoice_date', [INVOICE_DATE_PATTERN], match => toIsoDate(match[1])),
+    power_cost: read.number('power_cost'),
+    energy_cost: read.number('energy_cost'),
+    total_amount: read.number('total_amount'),
+    additional_services_cost: read.missing('additional_services_cost'),
+    other_costs_with_tax: read.missing('other_costs_with_tax'),
+    other_costs_without_tax: read.missing('other_costs_without_tax'),
+    discount: read.missing('discount'),
+    electricity_tax: read.number('electricity_tax'),
+    tax_amount: read.number('tax_amount'),
+    power_rate_p1: read.missing('power_rate_p1'),
+    power_rate_p2: read.missing('power_rate_p2'),
+    power_rate_p3: read.missing('power_rate_p3'),
+    power_rate_p4: read.missing('power_rate_p4'),
+    power_rate_p5: read.missing('power_rate_p5'),
+    power_rate_p6: read.missing('power_rate_p6'),
+    energy_rate_p1: read.missing('energy_rate_p1'),
+    energy_rate_p2: read.missing('energy_rate_p2'),
+    energy_rate_p3: read.missing('energy_rate_p3'),
+    energy_rate_p4: read.missing('energy_rate_p4'),
+    energy_rate_p5: read.missing('energy_rate_p5'),
+    energy_rate_p6: read.missing('energy_rate_p6'),
+    cups: read.string('cups', [CUPS_PATTERN], match => match[0].replace(/\s/g, '')),
+    tariff_code: tariffCode,
+    marketer_code: read.missing('marketer_code'),
+    green_energy: read.missing('green_energy'),
+    has_permanence: read.missing('has_permanence')
+  };
+
+  return { results, provenance: read.provenance };
+}
+
+export function validateTextResults(results: InvoiceResults): string[] {
+  const problems: string[] = [];
+
+  if (!results.cups) {
+    problems.push('No CUPS found in text');
+  }
+  if (results.total_amount === null || results.total_amount.sign() <= 0) {
+    problems.push('No total amount found in text');
+  }
+
+  return problems;
+}
+
+// Falls back to the printed text when the bill has no comparator link
+export const textLayerExtractor: Extractor<string[]> = {
+  name: 'text-layer',
+  version: '1.5.0',
+  source: 'text_layer',
+
+  async detect({ pdfDoc }) {
+    if (!pdfDoc) return [];
+
+    const pageTexts = extractPageTexts(pdfDoc);
+    if (!pageTexts.some(text => CUPS_PATTERN.test(text))) return [];
+
+    return [{ match: pageTexts, pageStart: 0, pageEnd: pdfDoc.getPageCount() - 1 }];
+  },
+
+  async extract(pageTexts) {
+    return mapInvoiceText(pageTexts);
+  },
+
+  validate: validateTextResults
+};
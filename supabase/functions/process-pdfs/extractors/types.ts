@@ -0,0 +1,69 @@
+import { PDFDocument } from "https://cdn.skypack.dev/pdf-lib?dts"
+import type { FieldProvenanceMap, InvoiceResults } from '../types.ts'
+
+// How the values were obtained, persisted as pdf_analysis.extraction_source
+export type ExtractionSource = 'comparator_link' | 'qr_code' | 'text_layer' | 'e_invoice' | 'ocr';
+
+// A file embedded in the PDF, or the uploaded file itself when it is not a PDF
+export interface Attachment {
+  name: string;
+  data: Uint8Array;
+}
+
+// pdfDoc is null for uploads that are not PDFs, such as Facturae XML or photos
+export interface ExtractionContext {
+  pdfDoc: PDFDocument | null;
+  fileName: string;
+  attachments: Attachment[];
+}
+
+// One invoice found in the file; page indexes are zero-based and inclusive
+export interface DetectedInvoice<TMatch> {
+  match: TMatch;
+  pageStart: number;
+  pageEnd: number;
+}
+
+// Every param of a comparator link, and the ones no result field is mapped from
+export interface ComparatorParams {
+  params: Record<string, string>;
+  unknown: string[];
+}
+
+export interface ExtractedInvoice {
+  results: InvoiceResults;
+  provenance: FieldProvenanceMap;
+  // Only for invoices read from a comparator link
+  comparatorParams?: ComparatorParams;
+}
+
+/**
+ * A strategy for pulling invoice data out of a document.
+ *
+ * `detect` is cheap and returns every invoice it recognises (none when the
+ * document is not for this extractor), `extract` turns each match into
+ * results, and `validate` returns the problems that should make the registry
+ * reject them. Rejected invoices only survive next to valid ones from the
+ * same file, which is then flagged for review.
+ */
+export interface Extractor<TMatch = unknown> {
+  name: string;
+  version: string;
+  source: ExtractionSource;
+  detect(context: ExtractionContext): Promise<DetectedInvoice<TMatch>[]>;
+  extract(match: TMatch, context: ExtractionContext): Promise<ExtractedInvoice>;
+  validate(results: InvoiceResults): string[];
+}
+
+export interface ExtractionOutcome {
+  extractorName: string;
+  extractorVersion: string;
+  source: ExtractionSource;
+  pageStart: number;
+  pageEnd: number;
+  results: InvoiceResults;
+  provenance: FieldProvenanceMap;
+  comparatorParams?: ComparatorParams;
+  // What the extractor's own validation rejected; empty for a valid invoice
+  problems: string[];
+}
@@ -0,0 +1,44 @@
+import jpeg from 'https://esm.sh/jpeg-js@0.4.4'
+import UPNG from 'https://esm.sh/upng-js@2.1.0'
+import decodeHeic from 'https://esm.sh/heic-decode@2.1.0'
+import type { RgbaImage } from './ocrEngine.ts'
+
+export type ImageFormat = 'jpeg' | 'png' | 'heic';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Brands of the HEIF container iPhones save photos in
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'];
+
+// Phone cameras go up to about 50 megapixels
+const MAX_DECODE_MEMORY_MB = 256;
+
+// Sniffs the format from the first bytes; file extensions are not trusted
+export function detectImageFormat(data: Uint8Array): ImageFormat | null {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (PNG_SIGNATURE.every((byte, i) => data[i] === byte)) return 'png';
+
+  const box = new TextDecoder('latin1').decode(data.subarray(4, 12));
+  if (box.startsWith('ftyp') && HEIF_BRANDS.includes(box.slice(4))) return 'heic';
+  return null;
+}
+
+export async function decodeImage(data: Uint8Array): Promise<RgbaImage> {
+  switch (detectImageFormat(data)) {
+    case 'jpeg': {
+      const decoded = jpeg.decode(data, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: MAX_DECODE_MEMORY_MB });
+      return { width: decoded.width, height: decoded.height, data: new Uint8ClampedArray(decoded.data) };
+    }
+    case 'png': {
+      const decoded = UPNG.decode(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+      const [frame] = UPNG.toRGBA8(decoded);
+      return { width: decoded.width, height: decoded.height, data: new Uint8ClampedArray(frame) };
+    }
+    case 'heic': {
+      const decoded = await decodeHeic({ buffer: data });
+      return { width: decoded.width, height: decoded.height, data: new Uint8ClampedArray(decoded.data) };
+    }
+    default:
+      throw new Error('Unsupported image format');
+  }
+}
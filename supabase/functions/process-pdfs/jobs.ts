@@ -0,0 +1,373 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { EURO_SCALE, KWH_SCALE } from './amounts.ts'
+import { refreshBatchStats } from './batches.ts'
+import { Decimal } from './decimal.ts'
+import { ProcessingError, toProcessingError } from './errors.ts'
+import { processAnalysis, type AnalysisRecord } from './processAnalysis.ts'
+import { getPipelineVersion } from './version.ts'
+
+// A claimed job is given back to the queue if its worker stops heartbeating
+const LEASE_SECONDS = 5 * 60;
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Retries wait 30s, 1m, 2m, ... capped at an hour
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 60 * 60;
+
+// Stop claiming new jobs after this long; the next scheduled run picks up the rest
+const WORKER_TIME_BUDGET_MS = 2 * 60 * 1000;
+
+// Jobs that came with a password are reserved for the worker holding it for
+// as long as that worker claims jobs
+const RESERVATION_SECONDS = WORKER_TIME_BUDGET_MS / 1000;
+
+// How often a worker holding passwords looks for its jobs that wait to retry
+const RESERVED_POLL_INTERVAL_MS = 5 * 1000;
+
+// PDFs are held in memory while they are parsed, so both the number of files
+// in flight and their combined size are capped. Override with env vars.
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_BATCH_BYTES = 50 * 1024 * 1024;
+
+export interface WorkerLimits {
+  concurrency: number;
+  maxBatchBytes: number;
+}
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+export function getWorkerLimits(): WorkerLimits {
+  return {
+    concurrency: readPositiveInt('PROCESS_PDFS_CONCURRENCY', DEFAULT_CONCURRENCY),
+    maxBatchBytes: readPositiveInt('PROCESS_PDFS_MAX_BATCH_BYTES', DEFAULT_MAX_BATCH_BYTES)
+  };
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+
+export interface ProcessingJob {
+  id: string;
+  analysis_id: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+}
+
+export function getBackoffSeconds(attempts: number): number {
+  return Math.min(BASE_BACKOFF_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_SECONDS);
+}
+
+function secondsFromNow(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+// Analyses that already have a queued or running job are left to that job;
+// returns the ids that were queued. With `reservedBy`, the queued jobs are
+// reserved for that worker, which must be the one given their passwords.
+export async function enqueueJobs(supabase: SupabaseClient, analysisIds: string[], reservedBy?: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('enqueue_processing_jobs', {
+    p_analysis_ids: analysisIds,
+    p_reserved_by: reservedBy ?? null,
+    p_reserved_seconds: RESERVATION_SECONDS
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue jobs: ${error.message}`);
+  }
+
+  const queuedIds = (data ?? []) as string[];
+  if (queuedIds.length < analysisIds.length) {
+    console.log(`${analysisIds.length - queuedIds.length} of ${analysisIds.length} analyses already have a job queued or running`);
+  }
+  return queuedIds;
+}
+
+// Claims queued jobs that are due and running jobs whose lease has expired,
+// only those of `analysisIds` when given
+async function claimJobs(supabase: SupabaseClient, workerId: string, limit: number, analysisIds?: string[]): Promise<ProcessingJob[]> {
+  const { data, error } = await supabase.rpc('claim_processing_jobs', {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lease_seconds: LEASE_SECONDS,
+    p_analysis_ids: analysisIds ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`);
+  }
+  return (data ?? []) as ProcessingJob[];
+}
+
+// Whether any of the analyses still has a job waiting, such as a retry
+async function hasQueuedJobs(supabase: SupabaseClient, analysisIds: string[]): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('processing_jobs')
+    .select('id', { count: 'exact', head: true })
+    .in('analysis_id', analysisIds)
+    .eq('status', 'queued');
+
+  if (error) {
+    console.error('Failed to check for queued jobs:', error);
+    return false;
+  }
+  return (count ?? 0) > 0;
+}
+
+async function heartbeat(supabase: SupabaseClient, job: ProcessingJob, workerId: string) {
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update({
+      heartbeat_at: new Date().toISOString(),
+      lease_expires_at: secondsFromNow(LEASE_SECONDS)
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    console.error(`Heartbeat failed for job ${job.id}:`, error);
+  }
+}
+
+// Keeps a job's lease alive from the moment it is claimed, including while it
+// waits for byte budget, so no other worker claims it again meanwhile
+function startHeartbeat(supabase: SupabaseClient, job: ProcessingJob, workerId: string): () => void {
+  const timer = setInterval(() => heartbeat(supabase, job, workerId), HEARTBEAT_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+async function completeJob(supabase: SupabaseClient, job: ProcessingJob) {
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'succeeded',
+      lease_expires_at: null,
+      locked_by: null,
+      last_error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id);
+}
+
+// Requeues with backoff, or gives up once the error is permanent or attempts run out
+async function failJob(supabase: SupabaseClient, job: ProcessingJob, error: ProcessingError) {
+  const permanent = !error.retryable;
+  const exhausted = job.attempts >= job.max_attempts;
+  const status: JobStatus = permanent ? 'failed' : exhausted ? 'dead' : 'queued';
+  const now = new Date().toISOString();
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status,
+      run_after: status === 'queued' ? secondsFromNow(getBackoffSeconds(job.attempts)) : now,
+      lease_expires_at: null,
+      locked_by: null,
+      last_error: error.message,
+      last_error_code: error.code,
+      updated_at: now
+    })
+    .eq('id', job.id);
+
+  if (status === 'queued') {
+    console.log(`Retrying job ${job.id} in ${getBackoffSeconds(job.attempts)}s (attempt ${job.attempts} of ${job.max_attempts})`);
+    await supabase
+      .from('pdf_analysis')
+      .update({ status: 'retrying', error: error.message, error_code: error.code })
+      .eq('id', job.analysis_id);
+    return;
+  }
+
+  if (status === 'dead') {
+    console.error(`Job ${job.id} moved to dead letter after ${job.attempts} attempts`);
+  }
+
+  await supabase
+    .from('pdf_analysis')
+    .update({
+      status: permanent ? error.status : 'error',
+      error: error.message,
+      error_code: error.code,
+      pipeline_version: getPipelineVersion(),
+      summary_stats: {
+        error_details: error.message,
+        error_code: error.code,
+        attempts: job.attempts,
+        processed_at: now
+      }
+    })
+    .eq('id', job.analysis_id);
+}
+
+// Dead-letters a job whose worker stopped during its last attempt. Claiming
+// it again counted one attempt more than it has.
+async function abandonJob(supabase: SupabaseClient, job: ProcessingJob) {
+  await failJob(
+    supabase,
+    { ...job, attempts: job.max_attempts },
+    new ProcessingError('INTERNAL_ERROR', job.last_error ?? 'Worker stopped before finishing')
+  );
+}
+
+async function loadAnalysis(supabase: SupabaseClient, job: ProcessingJob): Promise<AnalysisRecord | null> {
+  const { data: analysis, error } = await supabase
+    .from('pdf_analysis')
+    .select('id, file_name, file_path, total_size, batch_id, created_at')
+    .eq('id', job.analysis_id)
+    .single();
+
+  if (error || !analysis) {
+    await failJob(supabase, job, new ProcessingError('INTERNAL_ERROR', `Analysis not found: ${error?.message || job.analysis_id}`, false));
+    return null;
+  }
+  return analysis as AnalysisRecord;
+}
+
+async function processJob(supabase: SupabaseClient, job: ProcessingJob, analysis: AnalysisRecord, password?: string) {
+  try {
+    await supabase
+      .from('pdf_analysis')
+      .update({ status: 'processing' })
+      .eq('id', job.analysis_id);
+
+    const totals = await processAnalysis(supabase, analysis, password);
+    await completeJob(supabase, job);
+    return totals;
+  } catch (error) {
+    console.error(`Error processing job ${job.id}:`, error);
+    const processingError = toProcessingError(error);
+    await failJob(supabase, job, processingError);
+    throw processingError;
+  }
+}
+
+/**
+ * Drains the queue until nothing is due or the time budget runs out. Files
+ * are streamed through at most `concurrency` at a time, and a file only
+ * starts once its size fits in what is left of the byte budget. Safe to run
+ * from several invocations at once: claims skip rows another worker holds.
+ *
+ * PDF passwords are keyed by analysis id and never written to the queue. A
+ * worker given passwords only claims the jobs of those analyses, which
+ * enqueueJobs reserved for its `workerId`, and waits for their retries until
+ * its time budget runs out. Only a job still queued after that, or one whose
+ * worker died, goes to a worker without the password and fails as encrypted.
+ */
+export async function runWorker(
+  supabase: SupabaseClient,
+  limits = getWorkerLimits(),
+  passwords = new Map<string, string>(),
+  workerId: string = crypto.randomUUID()
+) {
+  const startedAt = Date.now();
+  const passwordIds = passwords.size > 0 ? [...passwords.keys()] : undefined;
+
+  console.log(`Worker ${workerId} starting: concurrency ${limits.concurrency}, byte budget ${formatMegabytes(limits.maxBatchBytes)}`);
+
+  let processedFiles = 0;
+  let failedFiles = 0;
+  let skippedFiles = 0;
+  let totalConsumption = Decimal.zero(KWH_SCALE);
+  let totalAmount = Decimal.zero(EURO_SCALE);
+
+  const running = new Set<Promise<void>>();
+  let bytesInFlight = 0;
+
+  const start = (job: ProcessingJob, analysis: AnalysisRecord, bytes: number, stopHeartbeat: () => void) => {
+    bytesInFlight += bytes;
+    console.log(`Starting ${analysis.file_name} (${formatMegabytes(bytes)}): ${running.size + 1}/${limits.concurrency} running, ${formatMegabytes(bytesInFlight)} in flight`);
+
+    const task: Promise<void> = processJob(supabase, job, analysis, passwords.get(job.analysis_id))
+      .then(totals => {
+        processedFiles++;
+        totalConsumption = totalConsumption.plus(totals.totalConsumption);
+        totalAmount = totalAmount.plus(totals.totalAmount);
+      }, error => {
+        if (error instanceof ProcessingError && (error.status === 'skipped' || error.status === 'unsupported')) {
+          skippedFiles++;
+        } else {
+          failedFiles++;
+        }
+      })
+      .then(() => analysis.batch_id ? refreshBatchStats(supabase, analysis.batch_id) : undefined)
+      .finally(() => {
+        stopHeartbeat();
+        bytesInFlight -= bytes;
+        running.delete(task);
+      });
+
+    running.add(task);
+  };
+
+  while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+    if (running.size >= limits.concurrency) {
+      await Promise.race(running);
+      continue;
+    }
+
+    const jobs = await claimJobs(supabase, workerId, limits.concurrency - running.size, passwordIds);
+    if (jobs.length === 0) {
+      if (running.size > 0) {
+        await Promise.race(running);
+      } else if (passwordIds && await hasQueuedJobs(supabase, passwordIds)) {
+        await new Promise(resolve => setTimeout(resolve, RESERVED_POLL_INTERVAL_MS));
+      } else {
+        break;
+      }
+      continue;
+    }
+
+    const claimed = jobs.map(job => ({ job, stopHeartbeat: startHeartbeat(supabase, job, workerId) }));
+
+    for (const { job, stopHeartbeat } of claimed) {
+      const analysis = await loadAnalysis(supabase, job);
+      if (!analysis) {
+        stopHeartbeat();
+        skippedFiles++;
+        continue;
+      }
+
+      if (job.attempts > job.max_attempts) {
+        stopHeartbeat();
+        await abandonJob(supabase, job);
+        failedFiles++;
+        if (analysis.batch_id) await refreshBatchStats(supabase, analysis.batch_id);
+        continue;
+      }
+
+      const bytes = analysis.total_size ?? 0;
+      if (bytes > limits.maxBatchBytes) {
+        console.warn(`${analysis.file_name} (${formatMegabytes(bytes)}) exceeds the byte budget on its own; processing it alone`);
+      }
+
+      // Wait for running files to finish until this one fits in the budget
+      while (running.size > 0 && bytesInFlight + bytes > limits.maxBatchBytes) {
+        await Promise.race(running);
+      }
+      start(job, analysis, bytes, stopHeartbeat);
+    }
+  }
+
+  await Promise.all(running);
+
+  const summary = { processedFiles, failedFiles, skippedFiles };
+  if (processedFiles + failedFiles + skippedFiles === 0) return summary;
+
+  // Log summary statistics
+  console.log('\nProcessing Summary:');
+  console.log(`Files processed successfully: ${processedFiles}`);
+  console.log(`Files with errors: ${failedFiles}`);
+  console.log(`Files without extractable data: ${skippedFiles}`);
+  console.log(`Total consumption: ${totalConsumption} kWh`);
+  console.log(`Total amount: ${totalAmount}€`);
+  console.log(`Average cost per file: ${processedFiles ? totalAmount.dividedBy(Decimal.from(processedFiles)) : totalAmount}€`);
+
+  return summary;
+}
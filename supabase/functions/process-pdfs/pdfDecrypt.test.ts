@@ -0,0 +1,51 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { PDFDocument, PDFRawStream } from "https://cdn.skypack.dev/pdf-lib?dts"
+import { decryptPdf } from './pdfDecrypt.ts'
+
+// One page with the title 'Factura de prueba' and an uncompressed content
+// stream, encrypted with user password 'factura' and owner password 'owner'.
+// Written with pdfkit; the revision 6 file has its password entries rewritten
+// following algorithm 2.B, and every file opens in pdf.js with both passwords.
+const FIXTURES = [
+  { file: 'rc4-40.pdf', cipher: 'RC4 40-bit, revision 2' },
+  { file: 'rc4-128.pdf', cipher: 'RC4 128-bit, revision 3' },
+  { file: 'aes-128.pdf', cipher: 'AES-128, revision 4' },
+  { file: 'aes-256-r5.pdf', cipher: 'AES-256, revision 5' },
+  { file: 'aes-256-r6.pdf', cipher: 'AES-256, revision 6' },
+];
+
+async function loadFixture(file: string): Promise<PDFDocument> {
+  const bytes = await Deno.readFile(new URL(`./testdata/${file}`, import.meta.url));
+  return PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+}
+
+async function assertDecrypted(bytes: Uint8Array | null) {
+  assert(bytes, 'the password should open the file');
+
+  const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+  assertEquals(pdfDoc.isEncrypted, false);
+  assertEquals(pdfDoc.getTitle(), 'Factura de prueba');
+
+  const contents = pdfDoc.getPage(0).node.Contents();
+  assert(contents instanceof PDFRawStream);
+  assert(new TextDecoder().decode(contents.getContents()).includes('/F1 12 Tf'));
+}
+
+for (const { file, cipher } of FIXTURES) {
+  Deno.test(`${cipher}: the user password decrypts strings and streams`, async () => {
+    await assertDecrypted(await decryptPdf(await loadFixture(file), 'factura'));
+  });
+
+  Deno.test(`${cipher}: the owner password decrypts strings and streams`, async () => {
+    await assertDecrypted(await decryptPdf(await loadFixture(file), 'owner'));
+  });
+
+  Deno.test(`${cipher}: no password or a wrong one opens nothing`, async () => {
+    assertEquals(await decryptPdf(await loadFixture(file)), null);
+    assertEquals(await decryptPdf(await loadFixture(file), 'facturas'), null);
+  });
+}
+
+Deno.test('a file with only an owner password opens without one', async () => {
+  await assertDecrypted(await decryptPdf(await loadFixture('aes-128-no-user-password.pdf')));
+});
@@ -0,0 +1,448 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+} from "https://cdn.skypack.dev/pdf-lib?dts"
+
+// Decryption for the PDF standard security handler (revisions 2 to 6, RC4
+// and AES). pdf-lib can read the structure of an encrypted file but leaves
+// its strings and streams encrypted.
+
+type CipherMethod = 'none' | 'rc4' | 'aes';
+
+interface SecurityHandler {
+  revision: number;
+  keyLength: number;
+  encryptMetadata: boolean;
+  stringMethod: CipherMethod;
+  streamMethod: CipherMethod;
+  owner: Uint8Array;
+  user: Uint8Array;
+  ownerKey: Uint8Array | null;
+  userKey: Uint8Array | null;
+  permissions: number;
+  documentId: Uint8Array;
+}
+
+// Pads or truncates passwords for revisions 2 to 4
+const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, (data.length * 8) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(data.length / 0x20000000), true);
+
+  const state = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(offset + g * 4, true)) | 0;
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)];
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new Uint8Array(16);
+  const digestView = new DataView(digest.buffer);
+  state.forEach((word, i) => digestView.setUint32(i * 4, word, true));
+  return digest;
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = Uint8Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+  }
+
+  const result = new Uint8Array(data.length);
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]) & 0xff;
+    [s[i], s[j]] = [s[j], s[i]];
+    result[k] = data[k] ^ s[(s[i] + s[j]) & 0xff];
+  }
+  return result;
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+function importAesKey(key: Uint8Array) {
+  return crypto.subtle.importKey('raw', key, 'AES-CBC', false, ['encrypt', 'decrypt']);
+}
+
+// Web Crypto always pads, so the padding block it appends is dropped
+async function aesEncryptNoPadding(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, await importAesKey(key), data);
+  return new Uint8Array(encrypted, 0, data.length);
+}
+
+// Web Crypto only decrypts padded data, so a valid padding block is appended:
+// encrypting nothing with the last ciphertext block as IV gives exactly that
+async function aesDecryptNoPadding(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key);
+  const paddingBlock = new Uint8Array(await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: data.subarray(data.length - 16) },
+    cryptoKey,
+    new Uint8Array(0)
+  ));
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv }, cryptoKey, concat(data, paddingBlock)));
+}
+
+// Encrypted strings and streams start with a 16 byte IV
+async function aesDecrypt(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (data.length < 32 || data.length % 16 !== 0) return new Uint8Array(0);
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: data.subarray(0, 16) },
+    await importAesKey(key),
+    data.subarray(16)
+  );
+  return new Uint8Array(decrypted);
+}
+
+function getBytes(dict: PDFDict, key: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+}
+
+function getNumber(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+// Revision 4 and later name a crypt filter per object type
+function getCipherMethod(encrypt: PDFDict, filterKey: string, version: number): CipherMethod {
+  if (version < 4) return 'rc4';
+
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+
+  if (method === PDFName.of('V2')) return 'rc4';
+  if (method === PDFName.of('AESV2') || method === PDFName.of('AESV3')) return 'aes';
+  return 'none';
+}
+
+function readSecurityHandler(pdfDoc: PDFDocument): SecurityHandler {
+  const { context } = pdfDoc;
+  const encrypt = context.lookup(context.trailerInfo.Encrypt);
+  if (!(encrypt instanceof PDFDict)) {
+    throw new Error('Encryption dictionary is missing');
+  }
+
+  const filter = encrypt.lookup(PDFName.of('Filter'));
+  if (filter !== PDFName.of('Standard')) {
+    throw new Error(`Unsupported security handler: ${filter}`);
+  }
+
+  const version = getNumber(encrypt, 'V', 0);
+  const revision = getNumber(encrypt, 'R', 0);
+  if (revision < 2 || revision > 6) {
+    throw new Error(`Unsupported encryption revision: ${revision}`);
+  }
+
+  const ids = context.lookup(context.trailerInfo.ID);
+  const firstId = ids instanceof PDFArray ? ids.lookup(0) : undefined;
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata'));
+
+  return {
+    revision,
+    keyLength: revision === 2 ? 5 : revision >= 5 ? 32 : getNumber(encrypt, 'Length', revision === 4 ? 128 : 40) / 8,
+    encryptMetadata: !(encryptMetadata instanceof PDFBool) || encryptMetadata.asBoolean(),
+    stringMethod: getCipherMethod(encrypt, 'StrF', version),
+    streamMethod: getCipherMethod(encrypt, 'StmF', version),
+    owner: getBytes(encrypt, 'O'),
+    user: getBytes(encrypt, 'U'),
+    ownerKey: revision >= 5 ? getBytes(encrypt, 'OE') : null,
+    userKey: revision >= 5 ? getBytes(encrypt, 'UE') : null,
+    permissions: getNumber(encrypt, 'P', 0),
+    documentId: firstId instanceof PDFString || firstId instanceof PDFHexString ? firstId.asBytes() : new Uint8Array(0),
+  };
+}
+
+function padPassword(password: Uint8Array): Uint8Array {
+  return concat(password.subarray(0, 32), PASSWORD_PADDING.subarray(0, 32 - Math.min(password.length, 32)));
+}
+
+// Algorithm 2 of the PDF spec: the file key derived from the user password
+function computeFileKey(handler: SecurityHandler, paddedPassword: Uint8Array): Uint8Array {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, handler.permissions, true);
+
+  let hash = md5(concat(
+    paddedPassword,
+    handler.owner.subarray(0, 32),
+    permissions,
+    handler.documentId,
+    handler.revision >= 4 && !handler.encryptMetadata ? new Uint8Array([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0)
+  ));
+
+  if (handler.revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      hash = md5(hash.subarray(0, handler.keyLength));
+    }
+  }
+  return hash.subarray(0, handler.keyLength);
+}
+
+// Algorithms 4 to 6: encrypting the padding with the key must reproduce U
+function checkUserPassword(handler: SecurityHandler, paddedPassword: Uint8Array): Uint8Array | null {
+  const key = computeFileKey(handler, paddedPassword);
+
+  if (handler.revision === 2) {
+    return equalBytes(rc4(key, PASSWORD_PADDING), handler.user.subarray(0, 32)) ? key : null;
+  }
+
+  let check = rc4(key, md5(concat(PASSWORD_PADDING, handler.documentId)));
+  for (let i = 1; i <= 19; i++) {
+    check = rc4(key.map(byte => byte ^ i), check);
+  }
+  return equalBytes(check, handler.user.subarray(0, 16)) ? key : null;
+}
+
+// Algorithm 7: the owner password decrypts O back into the user password
+function checkOwnerPassword(handler: SecurityHandler, password: Uint8Array): Uint8Array | null {
+  let hash = md5(padPassword(password));
+  if (handler.revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      hash = md5(hash);
+    }
+  }
+  const key = hash.subarray(0, handler.keyLength);
+
+  let userPassword = handler.owner.subarray(0, 32);
+  if (handler.revision === 2) {
+    userPassword = rc4(key, userPassword);
+  } else {
+    for (let i = 19; i >= 0; i--) {
+      userPassword = rc4(key.map(byte => byte ^ i), userPassword);
+    }
+  }
+  return checkUserPassword(handler, userPassword);
+}
+
+// Algorithm 2.B: revision 6 hashes the password in at least 64 AES rounds
+async function hashPassword(handler: SecurityHandler, password: Uint8Array, salt: Uint8Array, userData: Uint8Array) {
+  let hash = await digest('SHA-256', concat(password, salt, userData));
+  if (handler.revision === 5) return hash;
+
+  let encrypted = new Uint8Array(0);
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = concat(password, hash, userData);
+    const repeated = concat(...Array.from({ length: 64 }, () => block));
+    encrypted = await aesEncryptNoPadding(hash.subarray(0, 16), hash.subarray(16, 32), repeated);
+
+    const remainder = encrypted.subarray(0, 16).reduce((total, byte) => total + byte, 0) % 3;
+    hash = await digest(['SHA-256', 'SHA-384', 'SHA-512'][remainder], encrypted);
+  }
+  return hash.subarray(0, 32);
+}
+
+// Revisions 5 and 6 store the file key encrypted under each password's hash
+async function checkAesPassword(handler: SecurityHandler, password: Uint8Array): Promise<Uint8Array | null> {
+  const utf8 = password.subarray(0, 127);
+  const { owner, user } = handler;
+  const iv = new Uint8Array(16);
+
+  if (equalBytes(await hashPassword(handler, utf8, owner.subarray(32, 40), user.subarray(0, 48)), owner.subarray(0, 32))) {
+    const key = await hashPassword(handler, utf8, owner.subarray(40, 48), user.subarray(0, 48));
+    return aesDecryptNoPadding(key, iv, handler.ownerKey!);
+  }
+
+  if (equalBytes(await hashPassword(handler, utf8, user.subarray(32, 40), new Uint8Array(0)), user.subarray(0, 32))) {
+    const key = await hashPassword(handler, utf8, user.subarray(40, 48), new Uint8Array(0));
+    return aesDecryptNoPadding(key, iv, handler.userKey!);
+  }
+
+  return null;
+}
+
+async function findFileKey(handler: SecurityHandler, password: string): Promise<Uint8Array | null> {
+  if (handler.revision >= 5) {
+    return checkAesPassword(handler, new TextEncoder().encode(password));
+  }
+
+  // Revisions 2 to 4 take the password as single byte characters
+  const bytes = Uint8Array.from(password, char => char.charCodeAt(0) & 0xff);
+  return checkUserPassword(handler, padPassword(bytes)) ?? checkOwnerPassword(handler, bytes);
+}
+
+// Revisions 2 to 4 mix the object number into the key of each object
+function getObjectKey(handler: SecurityHandler, fileKey: Uint8Array, ref: PDFRef, method: CipherMethod): Uint8Array {
+  if (handler.revision >= 5) return fileKey;
+
+  const { objectNumber, generationNumber } = ref;
+  const hash = md5(concat(
+    fileKey,
+    new Uint8Array([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff]),
+    new Uint8Array([generationNumber & 0xff, (generationNumber >> 8) & 0xff]),
+    method === 'aes' ? new Uint8Array([0x73, 0x41, 0x6c, 0x54]) : new Uint8Array(0)
+  ));
+  return hash.subarray(0, Math.min(fileKey.length + 5, 16));
+}
+
+async function decryptBytes(handler: SecurityHandler, fileKey: Uint8Array, ref: PDFRef, method: CipherMethod, data: Uint8Array) {
+  if (method === 'none') return data;
+
+  const key = getObjectKey(handler, fileKey, ref, method);
+  return method === 'rc4' ? rc4(key, data) : aesDecrypt(key, data);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Returns the object with its strings decrypted, replacing them in place
+async function decryptStrings(handler: SecurityHandler, fileKey: Uint8Array, ref: PDFRef, object: PDFObject): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(toHex(await decryptBytes(handler, fileKey, ref, handler.stringMethod, object.asBytes())));
+  }
+
+  if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, await decryptStrings(handler, fileKey, ref, object.get(i)));
+    }
+  } else if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      object.set(key, await decryptStrings(handler, fileKey, ref, value));
+    }
+  }
+  return object;
+}
+
+async function decryptObject(handler: SecurityHandler, fileKey: Uint8Array, ref: PDFRef, object: PDFObject): Promise<PDFObject> {
+  if (!(object instanceof PDFRawStream)) {
+    return decryptStrings(handler, fileKey, ref, object);
+  }
+
+  const dict = await decryptStrings(handler, fileKey, ref, object.dict) as PDFDict;
+  const isMetadata = dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata');
+  if (isMetadata && !handler.encryptMetadata) {
+    return object;
+  }
+  return PDFRawStream.of(dict, await decryptBytes(handler, fileKey, ref, handler.streamMethod, object.contents));
+}
+
+// pdf-lib cannot decompress an encrypted object stream and keeps its raw
+// bytes instead; once decrypted, the objects inside are plain text
+function parseInvalidObject(pdfDoc: PDFDocument, object: PDFInvalidObject): PDFObject | null {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  try {
+    return PDFObjectParser.forBytes(bytes, pdfDoc.context).parseObject();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decrypts a document loaded with `ignoreEncryption`, trying an empty user
+ * password first since many bills only restrict printing or copying.
+ * Returns the bytes of an unencrypted copy, or null when no password fits.
+ */
+export async function decryptPdf(pdfDoc: PDFDocument, password?: string): Promise<Uint8Array | null> {
+  const handler = readSecurityHandler(pdfDoc);
+
+  let fileKey: Uint8Array | null = null;
+  for (const candidate of password ? ['', password] : ['']) {
+    fileKey = await findFileKey(handler, candidate);
+    if (fileKey) break;
+  }
+  if (!fileKey) return null;
+
+  const { context } = pdfDoc;
+  const encryptRef = context.trailerInfo.Encrypt;
+  const objectStreams: PDFRawStream[] = [];
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue;
+
+    const parsed = object instanceof PDFInvalidObject ? parseInvalidObject(pdfDoc, object) : object;
+    if (!parsed) continue;
+
+    const decrypted = await decryptObject(handler, fileKey, ref, parsed);
+    if (decrypted instanceof PDFRawStream && decrypted.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')) {
+      context.delete(ref);
+      objectStreams.push(decrypted);
+    } else {
+      context.assign(ref, decrypted);
+    }
+  }
+
+  for (const objectStream of objectStreams) {
+    await PDFObjectStreamParser.forStream(objectStream).parseIntoContext();
+  }
+
+  if (encryptRef instanceof PDFRef) {
+    context.delete(encryptRef);
+  }
+  context.trailerInfo.Encrypt = undefined;
+
+  // The catalog pdfDoc read at load time may have been inside an object stream,
+  // so nothing that goes through it runs before the copy is reloaded
+  return pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+}
@@ -0,0 +1,9 @@
+import { PROVINCES, type Province } from './data/provinces.ts'
+
+// Spanish postal codes start with the two-digit province number
+export function findProvince(postalCode: string): Province | null {
+  const code = postalCode.trim();
+  if (!/^\d{5}$/.test(code)) return null;
+
+  return PROVINCES[code.slice(0, 2)] ?? null;
+}
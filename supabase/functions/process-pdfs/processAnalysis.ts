@@ -0,0 +1,228 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { PDFDocument } from "https://cdn.skypack.dev/pdf-lib?dts"
+import { runExtractors } from './extractors/registry.ts'
+import { EURO_SCALE, KWH_SCALE, withDecimalAmounts } from './amounts.ts'
+import { buildCsv } from './csv.ts'
+import { Decimal } from './decimal.ts'
+import { findDuplicateAnalysis, getInvoiceIdentity } from './duplicates.ts'
+import { enrichOutcome } from './enrichment.ts'
+import { getEmbeddedFiles } from './extractors/pdfAttachments.ts'
+import type { ExtractionContext } from './extractors/types.ts'
+import { ProcessingError } from './errors.ts'
+import { decryptPdf } from './pdfDecrypt.ts'
+import { buildProvenanceRows } from './provenance.ts'
+import { buildFileSummaryStats, buildSummaryStats } from './summary.ts'
+import { getTotalConsumption } from './tariffs.ts'
+import { validateInvoice } from './validation.ts'
+import { getPipelineVersion } from './version.ts'
+
+export interface AnalysisRecord {
+  id: string;
+  file_name: string;
+  file_path: string;
+  total_size: number | null;
+  batch_id: string | null;
+  created_at: string;
+}
+
+export interface AnalysisTotals {
+  invoiceCount: number;
+  totalConsumption: Decimal;
+  totalAmount: Decimal;
+}
+
+// Encryption is checked after loading: pdf-lib's own EncryptedPDFError
+// cannot be told apart from other errors
+async function loadPdf(data: ArrayBuffer, password?: string) {
+  let pdfDoc: PDFDocument;
+  try {
+    pdfDoc = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+  } catch (error) {
+    throw new ProcessingError('PDF_PARSE_FAILED', `Failed to parse PDF: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!pdfDoc.isEncrypted) return pdfDoc;
+
+  let decrypted: Uint8Array | null;
+  try {
+    decrypted = await decryptPdf(pdfDoc, password);
+  } catch (error) {
+    throw new ProcessingError('ENCRYPTED', `Failed to decrypt PDF: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!decrypted) {
+    throw new ProcessingError('ENCRYPTED', password ? 'The password does not open the PDF' : 'PDF is password protected');
+  }
+
+  console.log('Decrypted PDF');
+  return PDFDocument.load(decrypted, { updateMetadata: false });
+}
+
+// Facturae XML and photos are uploaded on their own, without a PDF around them
+const STANDALONE_FILE = /\.(xml|jpe?g|png|heic|heif)$/i;
+
+async function loadDocument(analysis: AnalysisRecord, data: ArrayBuffer, password?: string): Promise<ExtractionContext> {
+  if (STANDALONE_FILE.test(analysis.file_name)) {
+    return { pdfDoc: null, fileName: analysis.file_name, attachments: [{ name: analysis.file_name, data: new Uint8Array(data) }] };
+  }
+
+  const pdfDoc = await loadPdf(data, password);
+  return { pdfDoc, fileName: analysis.file_name, attachments: getEmbeddedFiles(pdfDoc) };
+}
+
+/**
+ * Extracts, validates and stores every invoice in one uploaded file. Throws
+ * when the file cannot be processed; the job queue decides whether to retry.
+ * The password, if any, only lives in memory for the length of the call.
+ */
+export async function processAnalysis(supabase: SupabaseClient, analysis: AnalysisRecord, password?: string): Promise<AnalysisTotals> {
+  // Download PDF from storage
+  const { data: pdfData, error: downloadError } = await supabase.storage
+    .from('pdfs')
+    .download(analysis.file_path);
+
+  if (downloadError || !pdfData) {
+    throw new ProcessingError('DOWNLOAD_FAILED', `Failed to download PDF: ${downloadError?.message || 'No data'}`);
+  }
+
+  console.log('Processing PDF:', analysis.file_name);
+
+  const arrayBuffer = await pdfData.arrayBuffer();
+  const context = await loadDocument(analysis, arrayBuffer, password);
+
+  const outcomes = (await runExtractors(context)).map(enrichOutcome);
+
+  if (outcomes.length === 0) {
+    console.log('No extractor matched PDF:', analysis.file_name);
+    throw new ProcessingError('NO_COMPARATOR_LINK', 'No Facturae XML, CNMC link, QR code or readable invoice text found');
+  }
+
+  console.log('Parsed results:', JSON.stringify(outcomes.map(o => o.results)));
+
+  const validations = outcomes.map(({ results, problems }) => validateInvoice(results, problems));
+  const needsReview = validations.some(v => v.needs_review);
+
+  const rejectedCount = outcomes.filter(o => o.problems.length > 0).length;
+  if (rejectedCount > 0) {
+    console.log(`Keeping ${rejectedCount} invoice(s) that failed extraction checks for review:`, analysis.file_name);
+  }
+
+  if (needsReview) {
+    console.log('Invoice figures do not reconcile, flagging for review:', analysis.file_name);
+  }
+
+  // Create CSV content, one row per invoice
+  const csvContent = buildCsv(outcomes.map(({ pageStart, pageEnd, results }, index) => ({
+    invoice_index: index + 1,
+    page_start: pageStart + 1,
+    page_end: pageEnd + 1,
+    ...withDecimalAmounts(results)
+  })));
+
+  // Upload results CSV
+  const outputPath = `${analysis.id}/analysis_results.csv`;
+  const { error: uploadError } = await supabase.storage
+    .from('outputs')
+    .upload(outputPath, new Blob([csvContent], { type: 'text/csv' }), {
+      contentType: 'text/csv',
+      upsert: true
+    });
+
+  if (uploadError) {
+    throw new ProcessingError('UPLOAD_FAILED', `Failed to upload results: ${uploadError.message}`);
+  }
+
+  // Upload where each value came from, alongside the results
+  const provenanceCsv = buildCsv(buildProvenanceRows(outcomes.map(o => o.provenance)));
+  const { error: provenanceUploadError } = await supabase.storage
+    .from('outputs')
+    .upload(`${analysis.id}/field_provenance.csv`, new Blob([provenanceCsv], { type: 'text/csv' }), {
+      contentType: 'text/csv',
+      upsert: true
+    });
+
+  if (provenanceUploadError) {
+    throw new ProcessingError('UPLOAD_FAILED', `Failed to upload field sources: ${provenanceUploadError.message}`);
+  }
+
+  console.log('Uploaded results for:', analysis.file_name);
+
+  // Replace the invoices of any previous run of this analysis
+  await supabase
+    .from('extracted_invoices')
+    .delete()
+    .eq('analysis_id', analysis.id);
+
+  const { error: invoicesError } = await supabase
+    .from('extracted_invoices')
+    .insert(outcomes.map((outcome, index) => ({
+      analysis_id: analysis.id,
+      invoice_index: index + 1,
+      page_start: outcome.pageStart + 1,
+      page_end: outcome.pageEnd + 1,
+      document_type: outcome.results.document_type,
+      ...getInvoiceIdentity(outcome.results),
+      cups_valid: outcome.results.cups_valid ?? null,
+      distributor_code: outcome.results.distributor_code ?? null,
+      distributor_name: outcome.results.distributor_name ?? null,
+      province: outcome.results.province ?? null,
+      autonomous_community: outcome.results.autonomous_community ?? null,
+      tax_regime: outcome.results.tax_regime ?? null,
+      climate_zone: outcome.results.climate_zone ?? null,
+      extractor_name: outcome.extractorName,
+      extractor_version: outcome.extractorVersion,
+      extraction_source: outcome.source,
+      results: outcome.results,
+      field_provenance: outcome.provenance,
+      comparator_params: outcome.comparatorParams?.params ?? null,
+      unknown_comparator_params: outcome.comparatorParams?.unknown ?? null,
+      validation_results: validations[index],
+      summary_stats: buildSummaryStats(outcome.results)
+    })));
+
+  if (invoicesError) {
+    throw new ProcessingError('UPLOAD_FAILED', `Failed to store invoices: ${invoicesError.message}`);
+  }
+
+  const duplicateOf = await findDuplicateAnalysis(supabase, analysis, outcomes.map(o => o.results));
+  if (duplicateOf) {
+    console.log(`Same bill as analysis ${duplicateOf}:`, analysis.file_name);
+  }
+
+  const [firstOutcome] = outcomes;
+  const documentTypes = new Set(outcomes.map(o => o.results.document_type));
+
+  // Update analysis record with more detailed stats
+  const { error: updateError } = await supabase
+    .from('pdf_analysis')
+    .update({
+      status: needsReview ? 'needs_review' : 'completed',
+      error: null,
+      error_code: null,
+      output_path: outputPath,
+      page_count: context.pdfDoc?.getPageCount() ?? null,
+      extractor_name: firstOutcome.extractorName,
+      extractor_version: firstOutcome.extractorVersion,
+      pipeline_version: getPipelineVersion(),
+      extraction_source: firstOutcome.source,
+      document_type: documentTypes.size === 1 ? firstOutcome.results.document_type : 'mixed',
+      invoice_count: outcomes.length,
+      summary_stats: buildFileSummaryStats(outcomes),
+      field_provenance: outcomes.map(o => o.provenance),
+      // Every param of each invoice's comparator link, unmapped ones included
+      comparator_params: outcomes.map(o => o.comparatorParams?.params ?? null),
+      validation_results: validations,
+      duplicate_of: duplicateOf
+    })
+    .eq('id', analysis.id);
+
+  if (updateError) {
+    throw new ProcessingError('UPLOAD_FAILED', `Failed to store results: ${updateError.message}`);
+  }
+
+  return {
+    invoiceCount: outcomes.length,
+    totalConsumption: Decimal.sum(outcomes.map(({ results }) => getTotalConsumption(results)), KWH_SCALE),
+    totalAmount: Decimal.sum(outcomes.map(({ results }) => results.total_amount), EURO_SCALE)
+  };
+}
@@ -0,0 +1,26 @@
+import type { FieldProvenance, FieldProvenanceMap } from './types.ts'
+
+export const MISSING_FIELD: FieldProvenance = { value: null, source: 'missing', confidence: 0 };
+
+export function derivedField(value: FieldProvenance['value'], from: string, confidence: number): FieldProvenance {
+  return value === null
+    ? MISSING_FIELD
+    : { value, source: 'derived', param: from, confidence };
+}
+
+// Rows for the provenance export, one per invoice field
+export function buildProvenanceRows(invoices: FieldProvenanceMap[]) {
+  return invoices.flatMap((provenance, index) =>
+    Object.entries(provenance).map(([field, entry]) => ({
+      invoice_index: index + 1,
+      field,
+      value: entry.value === null ? null : String(entry.value),
+      source: entry.source,
+      confidence: entry.confidence,
+      param: entry.param ?? null,
+      page: entry.page ?? null,
+      position: entry.position ?? null,
+      raw: entry.raw ?? null
+    }))
+  );
+}
@@ -0,0 +1,136 @@
+import type { ExtractionOutcome } from './extractors/types.ts'
+import type { ElectricityInvoiceResults, GasInvoiceResults, InvoiceResults } from './types.ts'
+import { PERIODS, getTariffPeriods, getTotalConsumption } from './tariffs.ts'
+import { EURO_SCALE, KWH_SCALE } from './amounts.ts'
+import { Decimal } from './decimal.ts'
+
+// Lists only the periods the tariff bills
+function buildElectricitySummary(results: ElectricityInvoiceResults) {
+  const periods = getTariffPeriods(results);
+  const energyPeriods = PERIODS.slice(0, periods.energy);
+  const powerPeriods = PERIODS.slice(0, periods.power);
+
+  return {
+    document_type: results.document_type,
+    total_consumption: getTotalConsumption(results),
+    total_cost: results.total_amount,
+    tariff: {
+      code: results.tariff_code,
+      power_periods: periods.power,
+      energy_periods: periods.energy
+    },
+    billing_period: {
+      start: results.billing_start_date,
+      end: results.billing_end_date
+    },
+    consumption_details: Object.fromEntries(
+      energyPeriods.map(p => [`p${p}`, results[`consumption_p${p}`]])
+    ),
+    power_details: Object.fromEntries([
+      ...powerPeriods.map(p => [`contracted_p${p}`, results[`contracted_power_p${p}`]]),
+      ...powerPeriods.map(p => [`max_p${p}`, results[`max_power_p${p}`]])
+    ]),
+    costs_breakdown: {
+      power: results.power_cost,
+      energy: results.energy_cost,
+      additional_services: results.additional_services_cost,
+      other_with_tax: results.other_costs_with_tax,
+      other_without_tax: results.other_costs_without_tax,
+      discount: results.discount,
+      electricity_tax: results.electricity_tax
+    }
+  };
+}
+
+function buildGasSummary(results: GasInvoiceResults) {
+  return {
+    document_type: results.document_type,
+    total_consumption: getTotalConsumption(results),
+    total_cost: results.total_amount,
+    tariff: {
+      code: results.tariff_code,
+      band: results.tariff_band
+    },
+    billing_period: {
+      start: results.billing_start_date,
+      end: results.billing_end_date
+    },
+    rates: {
+      fixed_term: results.fixed_term_rate,
+      variable_term: results.variable_term_rate
+    },
+    costs_breakdown: {
+      fixed_term: results.fixed_term_cost,
+      variable_term: results.variable_term_cost,
+      meter_rental: results.meter_rental_cost,
+      discount: results.discount
+    }
+  };
+}
+
+// The supply point, shared by both document types
+function buildSupplySummary(results: InvoiceResults) {
+  return {
+    cups: results.cups,
+    cups_valid: results.cups_valid ?? null,
+    distributor: results.distributor_name ?? null
+  };
+}
+
+function buildLocationSummary(results: InvoiceResults) {
+  return {
+    postal_code: results.postal_code,
+    province: results.province ?? null,
+    autonomous_community: results.autonomous_community ?? null,
+    tax_regime: results.tax_regime ?? null,
+    climate_zone: results.climate_zone ?? null
+  };
+}
+
+// Parties and tax totals, only known for e-invoices
+function buildInvoiceDetailsSummary(results: InvoiceResults) {
+  return {
+    number: results.invoice_number ?? null,
+    series: results.invoice_series ?? null,
+    issuer: { tax_id: results.issuer_tax_id ?? null, name: results.issuer_name ?? null },
+    buyer: { tax_id: results.buyer_tax_id ?? null, name: results.buyer_name ?? null },
+    tax_base: results.tax_base ?? null,
+    tax_amount: results.tax_amount ?? null
+  };
+}
+
+// Builds pdf_analysis.summary_stats for the document type
+export function buildSummaryStats(results: InvoiceResults) {
+  const summary = results.document_type === 'gas'
+    ? buildGasSummary(results)
+    : buildElectricitySummary(results);
+
+  return {
+    ...summary,
+    supply: buildSupplySummary(results),
+    location: buildLocationSummary(results),
+    invoice: buildInvoiceDetailsSummary(results)
+  };
+}
+
+/**
+ * Builds summary_stats for a whole file. A single invoice keeps the
+ * per-invoice shape; bundled files add totals and one entry per invoice.
+ */
+export function buildFileSummaryStats(outcomes: ExtractionOutcome[]) {
+  if (outcomes.length === 1) {
+    return { invoice_count: 1, ...buildSummaryStats(outcomes[0].results) };
+  }
+
+  return {
+    invoice_count: outcomes.length,
+    total_consumption: Decimal.sum(outcomes.map(({ results }) => getTotalConsumption(results)), KWH_SCALE),
+    total_cost: Decimal.sum(outcomes.map(({ results }) => results.total_amount), EURO_SCALE),
+    invoices: outcomes.map(({ pageStart, pageEnd, results }) => ({
+      page_start: pageStart + 1,
+      page_end: pageEnd + 1,
+      cups: results.cups,
+      ...buildSummaryStats(results)
+    }))
+  };
+}
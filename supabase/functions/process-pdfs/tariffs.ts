@@ -0,0 +1,69 @@
+import type { ElectricityInvoiceResults, InvoiceResults } from './types.ts'
+import { KWH_SCALE } from './amounts.ts'
+import { Decimal } from './decimal.ts'
+
+export const PERIODS = [1, 2, 3, 4, 5, 6] as const;
+
+export type Period = typeof PERIODS[number];
+
+export interface TariffPeriods {
+  power: number;
+  energy: number;
+}
+
+// Access tariffs (peajes) and how many power / energy periods they bill
+const TARIFF_PERIODS: Record<string, TariffPeriods> = {
+  '2.0TD': { power: 2, energy: 3 },
+  '3.0TD': { power: 6, energy: 6 },
+  '3.0TDVE': { power: 6, energy: 6 },
+  '6.1TD': { power: 6, energy: 6 },
+  '6.1TDVE': { power: 6, energy: 6 },
+  '6.2TD': { power: 6, energy: 6 },
+  '6.3TD': { power: 6, energy: 6 },
+  '6.4TD': { power: 6, energy: 6 },
+};
+
+export function normalizeTariffCode(tariffCode: string | null): string | null {
+  return tariffCode ? tariffCode.replace(/\s/g, '').toUpperCase() : null;
+}
+
+/**
+ * Periods billed under the supply's tariff. Unknown or missing codes fall
+ * back to the six-period layout when any P4-P6 value is present, and to
+ * the 2.0TD layout otherwise.
+ */
+export function getTariffPeriods(results: ElectricityInvoiceResults): TariffPeriods {
+  const code = normalizeTariffCode(results.tariff_code);
+  if (code && TARIFF_PERIODS[code]) {
+    return TARIFF_PERIODS[code];
+  }
+
+  const hasSixPeriods = ([4, 5, 6] as const).some(p =>
+    [results[`contracted_power_p${p}`], results[`consumption_p${p}`]].some(value => value !== null && value.sign() !== 0)
+  );
+  return hasSixPeriods ? { power: 6, energy: 6 } : TARIFF_PERIODS['2.0TD'];
+}
+
+// Regulated gas tariffs (RL) and the yearly consumption band each covers
+const GAS_TARIFF_BANDS: Record<string, string> = {
+  'RL.1': '<= 5.000 kWh/año',
+  'RL.2': '5.000 - 15.000 kWh/año',
+  'RL.3': '15.000 - 50.000 kWh/año',
+  'RL.4': '50.000 - 300.000 kWh/año',
+};
+
+export function isGasTariff(tariffCode: string | null): boolean {
+  return /^RL\.?\d/.test(normalizeTariffCode(tariffCode) ?? '');
+}
+
+export function getGasTariffBand(tariffCode: string | null): string | null {
+  const code = normalizeTariffCode(tariffCode)?.replace(/^RL(\d)/, 'RL.$1');
+  return code ? GAS_TARIFF_BANDS[code] ?? null : null;
+}
+
+export function getTotalConsumption(results: InvoiceResults): Decimal {
+  if (results.document_type === 'gas') {
+    return Decimal.sum([results.consumption_kwh], KWH_SCALE);
+  }
+  return Decimal.sum(PERIODS.map(p => results[`consumption_p${p}`]), KWH_SCALE);
+}
@@ -0,0 +1,151 @@
+import type { Decimal } from './decimal.ts'
+
+export type DocumentType = 'electricity' | 'gas';
+
+// Where an extracted value came from; 'missing' means the document did not
+// carry it, which is stored as null rather than 0
+export type FieldSource = 'url_param' | 'text' | 'ocr' | 'xml' | 'derived' | 'missing';
+
+export interface FieldProvenance {
+  value: string | number | boolean | Decimal | null;
+  source: FieldSource;
+  // 0 (missing or unreadable) to 1 (read verbatim from the comparator URL)
+  confidence: number;
+  // URL parameter or XML element path, or for derived values the field they
+  // were derived from
+  param?: string;
+  // Raw text that could not be parsed into a value
+  raw?: string;
+  // 1-based page and character offset within that page's text
+  page?: number;
+  position?: number;
+}
+
+export type FieldProvenanceMap = Record<string, FieldProvenance>;
+
+// Figures are Decimals from the moment they are parsed, so they are stored
+// exactly as the document states them
+export interface ElectricityInvoiceResults {
+  document_type: 'electricity';
+  cnmc_url: string | null;
+  postal_code: string | null;
+  contracted_power_p1: Decimal | null;
+  contracted_power_p2: Decimal | null;
+  contracted_power_p3: Decimal | null;
+  contracted_power_p4: Decimal | null;
+  contracted_power_p5: Decimal | null;
+  contracted_power_p6: Decimal | null;
+  max_power_p1: Decimal | null;
+  max_power_p2: Decimal | null;
+  max_power_p3: Decimal | null;
+  max_power_p4: Decimal | null;
+  max_power_p5: Decimal | null;
+  max_power_p6: Decimal | null;
+  consumption_p1: Decimal | null;
+  consumption_p2: Decimal | null;
+  consumption_p3: Decimal | null;
+  consumption_p4: Decimal | null;
+  consumption_p5: Decimal | null;
+  consumption_p6: Decimal | null;
+  contract_start_date: string | null;
+  contract_end_date: string | null;
+  billing_start_date: string | null;
+  billing_end_date: string | null;
+  invoice_date: string | null;
+  power_cost: Decimal | null;
+  energy_cost: Decimal | null;
+  total_amount: Decimal | null;
+  additional_services_cost: Decimal | null;
+  other_costs_with_tax: Decimal | null;
+  other_costs_without_tax: Decimal | null;
+  discount: Decimal | null;
+  // Impuesto especial sobre la electricidad. IVA is charged on top of it, so
+  // it is not part of tax_amount.
+  electricity_tax: Decimal | null;
+  power_rate_p1: Decimal | null;
+  power_rate_p2: Decimal | null;
+  power_rate_p3: Decimal | null;
+  power_rate_p4: Decimal | null;
+  power_rate_p5: Decimal | null;
+  power_rate_p6: Decimal | null;
+  energy_rate_p1: Decimal | null;
+  energy_rate_p2: Decimal | null;
+  energy_rate_p3: Decimal | null;
+  energy_rate_p4: Decimal | null;
+  energy_rate_p5: Decimal | null;
+  energy_rate_p6: Decimal | null;
+  cups: string | null;
+  tariff_code: string | null;
+  marketer_code: string | null;
+  green_energy: boolean | null;
+  has_permanence: boolean | null;
+}
+
+export interface GasInvoiceResults {
+  document_type: 'gas';
+  cnmc_url: string | null;
+  postal_code: string | null;
+  consumption_kwh: Decimal | null;
+  billing_start_date: string | null;
+  billing_end_date: string | null;
+  invoice_date: string | null;
+  fixed_term_rate: Decimal | null;
+  variable_term_rate: Decimal | null;
+  fixed_term_cost: Decimal | null;
+  variable_term_cost: Decimal | null;
+  meter_rental_cost: Decimal | null;
+  discount: Decimal | null;
+  total_amount: Decimal | null;
+  cups: string | null;
+  tariff_code: string | null;
+  tariff_band: string | null;
+  marketer_code: string | null;
+  has_permanence: boolean | null;
+}
+
+export interface InvoiceTax {
+  // Facturae TaxTypeCode: 01 IVA, 02 IPSI, 03 IGIC, 04 IRPF...
+  type_code: string;
+  type: string | null;
+  rate: Decimal | null;
+  base: Decimal | null;
+  amount: Decimal | null;
+}
+
+export interface InvoiceLineItem {
+  description: string | null;
+  quantity: Decimal | null;
+  unit_price: Decimal | null;
+  amount: Decimal | null;
+}
+
+// Only structured e-invoices identify the parties and itemise taxes and
+// lines, so extractors reading bill text or comparator links leave these out.
+// tax_amount (IVA, IGIC or IPSI) is also read from bill text when printed.
+export interface InvoiceDocumentDetails {
+  invoice_number?: string | null;
+  invoice_series?: string | null;
+  issuer_tax_id?: string | null;
+  issuer_name?: string | null;
+  buyer_tax_id?: string | null;
+  buyer_name?: string | null;
+  tax_base?: Decimal | null;
+  tax_amount?: Decimal | null;
+  taxes?: InvoiceTax[];
+  line_items?: InvoiceLineItem[];
+}
+
+// Looked up from bundled reference data once a document has been extracted,
+// so extractors never set these themselves
+export interface InvoiceEnrichment {
+  cups_valid?: boolean | null;
+  cups_error?: string | null;
+  distributor_code?: string | null;
+  distributor_name?: string | null;
+  province?: string | null;
+  autonomous_community?: string | null;
+  tax_regime?: 'IVA' | 'IGIC' | 'IPSI' | null;
+  climate_zone?: string | null;
+}
+
+export type InvoiceResults = (ElectricityInvoiceResults | GasInvoiceResults) & InvoiceDocumentDetails & InvoiceEnrichment;
@@ -0,0 +1,137 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { Decimal } from './decimal.ts'
+import type { ElectricityInvoiceResults, InvoiceResults } from './types.ts'
+import { validateInvoice } from './validation.ts'
+
+function decimal(value: string): Decimal {
+  return Decimal.parse(value)!;
+}
+
+// The breakdown of a 2.0TD bill for January 2025, 30 days at 4.6 kW, laid out
+// the way the supplier prints it: every line rounded to the cent, the
+// electricity tax at 5.11269632% on power, energy and the bono social levy,
+// then 21% IVA on everything including the tax and the meter rental.
+//
+//   Power       4.6 kW × 0.093902 €/kW day × 30 days       12.96
+//               4.6 kW × 0.013511 €/kW day × 30 days        1.86  14.82
+//   Energy      80 kWh × 0.179 + 70 kWh × 0.121 + 120 kWh × 0.087  33.23
+//   Bono social 0.019121 €/day × 30 days                          0.57
+//   Electricity tax 5.11269632% × 48.62                           2.49
+//   Meter rental 0.027 €/day × 30 days                            0.81
+//   IVA 21% × 51.92                                              10.90
+//   Total                                                        62.82
+const bill: ElectricityInvoiceResults & InvoiceResults = {
+  document_type: 'electricity',
+  cnmc_url: null,
+  postal_code: '28001',
+  contracted_power_p1: decimal('4.6'),
+  contracted_power_p2: decimal('4.6'),
+  contracted_power_p3: null,
+  contracted_power_p4: null,
+  contracted_power_p5: null,
+  contracted_power_p6: null,
+  max_power_p1: null,
+  max_power_p2: null,
+  max_power_p3: null,
+  max_power_p4: null,
+  max_power_p5: null,
+  max_power_p6: null,
+  consumption_p1: decimal('80'),
+  consumption_p2: decimal('70'),
+  consumption_p3: decimal('120'),
+  consumption_p4: null,
+  consumption_p5: null,
+  consumption_p6: null,
+  contract_start_date: null,
+  contract_end_date: null,
+  billing_start_date: '2025-01-01',
+  billing_end_date: '2025-01-30',
+  invoice_date: '2025-02-03',
+  power_cost: decimal('14.82'),
+  energy_cost: decimal('33.23'),
+  total_amount: decimal('62.82'),
+  additional_services_cost: null,
+  other_costs_with_tax: decimal('0.57'),
+  other_costs_without_tax: decimal('0.81'),
+  discount: null,
+  electricity_tax: decimal('2.49'),
+  tax_amount: decimal('10.90'),
+  power_rate_p1: decimal('0.093902'),
+  power_rate_p2: decimal('0.013511'),
+  power_rate_p3: null,
+  power_rate_p4: null,
+  power_rate_p5: null,
+  power_rate_p6: null,
+  energy_rate_p1: decimal('0.179'),
+  energy_rate_p2: decimal('0.121'),
+  energy_rate_p3: decimal('0.087'),
+  energy_rate_p4: null,
+  energy_rate_p5: null,
+  energy_rate_p6: null,
+  cups: null,
+  tariff_code: '2.0TD',
+  marketer_code: null,
+  green_energy: null,
+  has_permanence: null
+};
+
+function ruleStatus(results: InvoiceResults, rule: string) {
+  return validateInvoice(results).rules.find(r => r.rule === rule)?.status;
+}
+
+Deno.test('a bill reconciles once the electricity tax and IVA are added', () => {
+  const report = validateInvoice(bill);
+
+  assertEquals(report.rules.find(r => r.rule === 'power_cost')?.status, 'pass');
+  assertEquals(report.rules.find(r => r.rule === 'energy_cost')?.status, 'pass');
+  assertEquals(report.rules.find(r => r.rule === 'total_amount')?.status, 'pass');
+  assertEquals(report.rules.find(r => r.rule === 'total_amount')?.expected?.toString(), '62.82');
+  assertEquals(report.needs_review, false);
+});
+
+Deno.test('a total that leaves out the taxes fails', () => {
+  assertEquals(ruleStatus({ ...bill, total_amount: decimal('49.43') }, 'total_amount'), 'fail');
+});
+
+Deno.test('a total off by a misread digit fails', () => {
+  assertEquals(ruleStatus({ ...bill, total_amount: decimal('68.82') }, 'total_amount'), 'fail');
+});
+
+Deno.test('without a stated tax the total is checked against the rates it may have been charged', () => {
+  assertEquals(ruleStatus({ ...bill, tax_amount: null }, 'total_amount'), 'pass');
+  assertEquals(ruleStatus({ ...bill, electricity_tax: null }, 'total_amount'), 'pass');
+  assertEquals(ruleStatus({ ...bill, tax_amount: null, tax_regime: 'IGIC' }, 'total_amount'), 'fail');
+});
+
+// The same bill as a comparator link carries it: the costs and the total,
+// but no taxes
+const linkBill: InvoiceResults = {
+  ...bill,
+  cnmc_url: 'https://comparador.cnmc.gob.es/facturaluz/inicio?imp=62.82',
+  electricity_tax: null,
+  tax_amount: null,
+  tax_regime: 'IVA'
+};
+
+Deno.test('a bill from a comparator link reconciles within the tax rates', () => {
+  assertEquals(ruleStatus(linkBill, 'total_amount'), 'pass');
+});
+
+Deno.test('a wrong total on a bill from a comparator link fails', () => {
+  assertEquals(ruleStatus({ ...linkBill, total_amount: decimal('68.82') }, 'total_amount'), 'fail');
+  assertEquals(ruleStatus({ ...linkBill, total_amount: decimal('49.43') }, 'total_amount'), 'fail');
+});
+
+Deno.test('invoices rejected by their extractor need review', () => {
+  const report = validateInvoice(bill, ['Missing CUPS (cups)']);
+
+  assertEquals(report.rules[0], {
+    rule: 'extraction',
+    status: 'fail',
+    expected: null,
+    actual: null,
+    difference: null,
+    message: 'Missing CUPS (cups)'
+  });
+  assertEquals(report.needs_review, true);
+});
@@ -0,0 +1,237 @@
+import type { ElectricityInvoiceResults, GasInvoiceResults, InvoiceDocumentDetails, InvoiceResults } from './types.ts'
+import { PERIODS, getTariffPeriods } from './tariffs.ts'
+import { checkCups } from './cups.ts'
+import { EURO_SCALE } from './amounts.ts'
+import { Decimal } from './decimal.ts'
+import type { TaxRegime } from './data/provinces.ts'
+
+export type RuleStatus = 'pass' | 'warning' | 'fail' | 'skipped';
+
+export interface RuleResult {
+  rule: string;
+  status: RuleStatus;
+  expected: Decimal | null;
+  actual: Decimal | null;
+  difference: Decimal | null;
+  message: string;
+}
+
+export interface ValidationReport {
+  needs_review: boolean;
+  rules: RuleResult[];
+}
+
+// Differences up to 5 cents or 1% pass; up to 5% are reported as warnings
+const ABSOLUTE_TOLERANCE = 0.05;
+const PASS_TOLERANCE = 0.01;
+const WARNING_TOLERANCE = 0.05;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The lowest and the highest an amount can be
+type Range = [low: Decimal, high: Decimal];
+
+function rateRange(low: string, high: string): Range {
+  return [Decimal.parse(low)!, Decimal.parse(high)!];
+}
+
+// Comparator links and most bill text leave out the taxes, so the total is
+// checked against the rates the bill may have been charged instead, as
+// multipliers of the amount they apply to. The electricity tax was cut to
+// 0.5% between 2021 and 2024, and IVA on electricity and gas to 5% in 2022
+// and 2023; domestic supplies pay no IGIC, and IPSI differs between Ceuta
+// and Melilla.
+const ELECTRICITY_TAX_RATES = rateRange('1.005', '1.0511269632');
+const SALES_TAX_RATES: Record<TaxRegime, Range> = {
+  IVA: rateRange('1.05', '1.21'),
+  IGIC: rateRange('1', '1.07'),
+  IPSI: rateRange('1', '1.10')
+};
+// When the postal code does not tell the regime
+const ANY_SALES_TAX_RATE = rateRange('1', '1.21');
+// €/kWh, charged on gas before IVA
+const HYDROCARBONS_TAX = Decimal.parse('0.00234')!;
+
+// Billed days, counting both the first and the last day of the period
+export function getBillingDays(start: string | null, end: string | null): number | null {
+  if (!start || !end) return null;
+
+  const startTime = Date.parse(start);
+  const endTime = Date.parse(end);
+  if (Number.isNaN(startTime) || Number.isNaN(endTime)) return null;
+
+  return Math.round((endTime - startTime) / DAY_MS) + 1;
+}
+
+// The expected amount is rounded to the cent, as the invoice would have been
+function compare(rule: string, expectedAmount: Decimal | null, actual: Decimal | null, label: string): RuleResult {
+  const expected = expectedAmount?.round(EURO_SCALE) ?? null;
+  if (expected === null || actual === null) {
+    return { rule, status: 'skipped', expected, actual, difference: null, message: `Not enough data to check ${label}` };
+  }
+
+  const difference = actual.round(EURO_SCALE).minus(expected);
+  // The tolerances are ratios, so floats are precise enough to apply them
+  const absolute = Math.abs(difference.toNumber());
+  const relative = absolute / Math.max(Math.abs(expected.toNumber()), Math.abs(actual.toNumber()), 1);
+
+  if (absolute <= ABSOLUTE_TOLERANCE || relative <= PASS_TOLERANCE) {
+    return { rule, status: 'pass', expected, actual, difference, message: `${label} reconciles` };
+  }
+
+  return {
+    rule,
+    status: relative <= WARNING_TOLERANCE ? 'warning' : 'fail',
+    expected,
+    actual,
+    difference,
+    message: `${label} is off by ${difference} (${(relative * 100).toFixed(1)}%)`
+  };
+}
+
+// Exact product of two extracted values, or null when either is missing
+function multiply(a: Decimal | null, b: Decimal | null): Decimal | null {
+  return a === null || b === null ? null : a.times(b);
+}
+
+// Sum of a × b over periods, or null when any period misses a value
+function sumProducts(pairs: [Decimal | null, Decimal | null][]): Decimal | null {
+  let total = Decimal.zero();
+  for (const [a, b] of pairs) {
+    const product = multiply(a, b);
+    if (product === null) return null;
+    total = total.plus(product);
+  }
+  return total;
+}
+
+// Costs added up, less the discount
+function sumCosts(costs: (Decimal | null)[], discount: Decimal | null): Decimal {
+  return Decimal.sum(costs, EURO_SCALE).minus(discount ?? Decimal.zero(EURO_SCALE));
+}
+
+// A tax the bill states is added as is; a missing one at both ends of its rates
+function addTax([low, high]: Range, amount: Decimal | null, [lowRate, highRate]: Range): Range {
+  return amount === null ? [low.times(lowRate), high.times(highRate)] : [low.plus(amount), high.plus(amount)];
+}
+
+// Compares against the nearest end of the range, so any amount within it
+// reconciles; the range is a single amount when the bill states every tax
+function compareRange(rule: string, range: Range | null, actual: Decimal | null, label: string): RuleResult {
+  if (range === null) return compare(rule, null, actual, label);
+
+  const [low, high] = range;
+  if (actual === null) return compare(rule, low.minus(high).sign() === 0 ? low : null, actual, label);
+
+  const expected = actual.minus(low).sign() < 0 ? low : actual.minus(high).sign() > 0 ? high : actual;
+  return compare(rule, expected, actual, label);
+}
+
+function checkBillingPeriod(results: InvoiceResults): RuleResult {
+  const days = getBillingDays(results.billing_start_date, results.billing_end_date);
+
+  if (days === null) {
+    return { rule: 'billing_period', status: 'skipped', expected: null, actual: null, difference: null, message: 'Billing period is missing' };
+  }
+  const actual = Decimal.from(days);
+  return days > 0
+    ? { rule: 'billing_period', status: 'pass', expected: null, actual, difference: null, message: `${days} billed days` }
+    : { rule: 'billing_period', status: 'fail', expected: null, actual, difference: null, message: 'Billing period ends before it starts' };
+}
+
+// A CUPS whose control letters do not match was most likely misread
+function checkCupsCode(results: InvoiceResults): RuleResult {
+  if (!results.cups) {
+    return { rule: 'cups', status: 'skipped', expected: null, actual: null, difference: null, message: 'CUPS is missing' };
+  }
+
+  const { valid, error } = checkCups(results.cups);
+  return valid
+    ? { rule: 'cups', status: 'pass', expected: null, actual: null, difference: null, message: 'CUPS control letters match' }
+    : { rule: 'cups', status: 'fail', expected: null, actual: null, difference: null, message: error ?? 'Invalid CUPS' };
+}
+
+function getSalesTaxRates(results: InvoiceResults): Range {
+  return results.tax_regime ? SALES_TAX_RATES[results.tax_regime] : ANY_SALES_TAX_RATE;
+}
+
+function validateElectricity(results: ElectricityInvoiceResults & InvoiceDocumentDetails): RuleResult[] {
+  const days = getBillingDays(results.billing_start_date, results.billing_end_date);
+  const periods = getTariffPeriods(results);
+
+  const powerPerDay = sumProducts(PERIODS.slice(0, periods.power).map((p): [Decimal | null, Decimal | null] =>
+    [results[`contracted_power_p${p}`], results[`power_rate_p${p}`]]
+  ));
+  const expectedEnergy = sumProducts(PERIODS.slice(0, periods.energy).map((p): [Decimal | null, Decimal | null] =>
+    [results[`consumption_p${p}`], results[`energy_rate_p${p}`]]
+  ));
+
+  // The total a customer pays includes the electricity tax and IVA, at the
+  // rates they may have been charged when the bill does not state them
+  const { power_cost, energy_cost, electricity_tax, tax_amount = null, total_amount } = results;
+  const costs = power_cost === null || energy_cost === null
+    ? null
+    : sumCosts([
+      power_cost,
+      energy_cost,
+      results.additional_services_cost,
+      results.other_costs_with_tax,
+      results.other_costs_without_tax
+    ], results.discount);
+  const totalRange = costs === null
+    ? null
+    : addTax(addTax([costs, costs], electricity_tax, ELECTRICITY_TAX_RATES), tax_amount, getSalesTaxRates(results));
+
+  return [
+    checkCupsCode(results),
+    checkBillingPeriod(results),
+    compare('power_cost', powerPerDay === null || days === null ? null : powerPerDay.times(Decimal.from(days)), power_cost, 'Power cost (power × rate × days)'),
+    compare('energy_cost', expectedEnergy, energy_cost, 'Energy cost (consumption × rate)'),
+    compareRange('total_amount', totalRange, total_amount, 'Total amount (costs − discount + electricity tax + IVA)')
+  ];
+}
+
+function validateGas(results: GasInvoiceResults & InvoiceDocumentDetails): RuleResult[] {
+  const days = getBillingDays(results.billing_start_date, results.billing_end_date);
+  const billedDays = days === null ? null : Decimal.from(days);
+  const { fixed_term_rate, variable_term_rate, consumption_kwh, fixed_term_cost, variable_term_cost, tax_amount = null } = results;
+
+  // Gas bills also charge the hydrocarbons tax, which no extractor reads yet,
+  // so the total may be anywhere up to the tax on the whole consumption
+  const costs = fixed_term_cost === null || variable_term_cost === null
+    ? null
+    : sumCosts([fixed_term_cost, variable_term_cost, results.meter_rental_cost], results.discount);
+  const hydrocarbonsTax = multiply(consumption_kwh, HYDROCARBONS_TAX) ?? Decimal.zero();
+  const totalRange = costs === null
+    ? null
+    : addTax([costs, costs.plus(hydrocarbonsTax)], tax_amount, getSalesTaxRates(results));
+
+  return [
+    checkCupsCode(results),
+    checkBillingPeriod(results),
+    compare('fixed_term_cost', multiply(fixed_term_rate, billedDays), fixed_term_cost, 'Fixed term (rate × days)'),
+    compare('variable_term_cost', multiply(variable_term_rate, consumption_kwh), variable_term_cost, 'Variable term (consumption × rate)'),
+    compareRange('total_amount', totalRange, results.total_amount, 'Total amount (costs − discount + hydrocarbons tax + IVA)')
+  ];
+}
+
+// Problems the extractor's own validation found in an invoice kept for review
+function checkExtraction(problems: string[]): RuleResult[] {
+  return problems.map((message): RuleResult => ({ rule: 'extraction', status: 'fail', expected: null, actual: null, difference: null, message }));
+}
+
+/**
+ * Cross-checks the extracted figures against each other. Any failing rule
+ * marks the invoice for manual review; skipped rules lacked the inputs.
+ */
+export function validateInvoice(results: InvoiceResults, extractionProblems: string[] = []): ValidationReport {
+  const rules = [
+    ...checkExtraction(extractionProblems),
+    ...(results.document_type === 'gas' ? validateGas(results) : validateElectricity(results))
+  ];
+
+  return {
+    needs_review: rules.some(r => r.status === 'fail'),
+    rules
+  };
+}
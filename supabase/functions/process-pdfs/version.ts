@@ -0,0 +1,15 @@
+import { getExtractors } from './extractors/registry.ts'
+
+// Covers the logic every extractor shares: enrichment, validation, summaries
+// and the CSV output. Bump it when any of them changes; extractors carry
+// their own versions.
+const CORE_VERSION = '1.3.0';
+
+/**
+ * Identifies the code an analysis was produced with, so results from older
+ * logic can be found and reprocessed. Changes whenever the core or any
+ * registered extractor changes version.
+ */
+export function getPipelineVersion(): string {
+  return [`core@${CORE_VERSION}`, ...getExtractors().map(e => `${e.name}@${e.version}`)].join(' ');
+}
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { enqueueJobs, getWorkerLimits, runWorker } from '../process-pdfs/jobs.ts'
+import { getPipelineVersion } from '../process-pdfs/version.ts'
+
+// Admin entry point: re-runs analyses against the current pipeline version.
+// The previous result of each one is kept in analysis_revisions.
+//
+//   { "analysisIds": [...] }   reprocess these, whatever version they are at
+//   { "all": true }            reprocess every analysis not at the current version
+//   { "all": true, "force": true }  reprocess every analysis
+//
+// PDFs that needed a password can be opened again by passing "password".
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  // Only callable with the service role key, never from the browser
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Not authorized' }),
+      { headers: { 'Content-Type': 'application/json' }, status: 401 }
+    )
+  }
+
+  try {
+    const { analysisIds, all, force, password } = await req.json();
+
+    if (!all && (!analysisIds || analysisIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: 'Provide analysisIds, or all: true to reprocess every analysis' }),
+        { headers: { 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const pipelineVersion = getPipelineVersion();
+    const { data, error } = await supabase.rpc('reprocess_analyses', {
+      p_analysis_ids: all ? null : analysisIds,
+      p_skip_version: all && !force ? pipelineVersion : null
+    });
+
+    if (error) {
+      throw new Error(`Failed to queue analyses: ${error.message}`);
+    }
+
+    const queuedIds = (data ?? []) as string[];
+    console.log(`Queued ${queuedIds.length} analyses for reprocessing with ${pipelineVersion}`);
+
+    if (queuedIds.length > 0) {
+      const passwords = new Map<string, string>(password ? queuedIds.map(id => [id, password]) : []);
+
+      // Reserves the queued jobs for the worker holding the password; their
+      // jobs already exist, so nothing new is queued
+      const workerId = crypto.randomUUID();
+      if (password) {
+        await enqueueJobs(supabase, queuedIds, workerId);
+      }
+
+      // The scheduled process-jobs worker picks up whatever this run does not finish
+      EdgeRuntime.waitUntil(runWorker(supabase, getWorkerLimits(), passwords, workerId).catch(workerError => {
+        console.error('Background reprocessing error:', workerError);
+      }));
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: 'Reprocessing started',
+        pipelineVersion,
+        analysisIds: queuedIds
+      }),
+      { headers: { 'Content-Type': 'application/json' }, status: 200 }
+    )
+  } catch (error) {
+    console.error('Error reprocessing analyses:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to reprocess analyses', details: error.message }),
+      { headers: { 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,4 @@
+-- Record which extractor produced each analysis
+alter table public.pdf_analysis
+  add column if not exists extractor_name text,
+  add column if not exists extractor_version text;
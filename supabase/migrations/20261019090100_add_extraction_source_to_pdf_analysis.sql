@@ -0,0 +1,3 @@
+-- Distinguish values read from the comparator link from those scraped from text
+alter table public.pdf_analysis
+  add column if not exists extraction_source text;
@@ -0,0 +1,7 @@
+-- Discriminates electricity and gas results in summary_stats
+alter table public.pdf_analysis
+  add column if not exists document_type text;
+
+update public.pdf_analysis
+  set document_type = 'electricity'
+  where status = 'completed' and document_type is null;
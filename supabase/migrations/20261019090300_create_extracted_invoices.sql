@@ -0,0 +1,29 @@
+-- One row per invoice found in an uploaded file; bundled PDFs hold several
+create table if not exists public.extracted_invoices (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null references public.pdf_analysis(id) on delete cascade,
+  invoice_index integer not null,
+  page_start integer not null,
+  page_end integer not null,
+  document_type text not null,
+  cups text,
+  extractor_name text not null,
+  extractor_version text not null,
+  extraction_source text not null,
+  results jsonb not null,
+  summary_stats jsonb,
+  created_at timestamp with time zone default now(),
+  unique (analysis_id, invoice_index)
+);
+
+create index if not exists extracted_invoices_analysis_id_idx
+  on public.extracted_invoices (analysis_id);
+
+alter table public.extracted_invoices enable row level security;
+
+create policy "Extracted invoices are readable by everyone"
+  on public.extracted_invoices for select
+  using (true);
+
+alter table public.pdf_analysis
+  add column if not exists invoice_count integer;
@@ -0,0 +1,6 @@
+-- Source, confidence and missing state of every extracted value
+alter table public.pdf_analysis
+  add column if not exists field_provenance jsonb;
+
+alter table public.extracted_invoices
+  add column if not exists field_provenance jsonb;
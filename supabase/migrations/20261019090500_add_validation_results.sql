@@ -0,0 +1,6 @@
+-- Arithmetic cross-checks of the extracted figures; failures set status to needs_review
+alter table public.pdf_analysis
+  add column if not exists validation_results jsonb;
+
+alter table public.extracted_invoices
+  add column if not exists validation_results jsonb;
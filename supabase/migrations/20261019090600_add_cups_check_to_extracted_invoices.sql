@@ -0,0 +1,5 @@
+-- CUPS control letter check and the distributor resolved from its prefix
+alter table public.extracted_invoices
+  add column if not exists cups_valid boolean,
+  add column if not exists distributor_code text,
+  add column if not exists distributor_name text;
@@ -0,0 +1,6 @@
+-- Location looked up from the supply postal code, for regional segmentation
+alter table public.extracted_invoices
+  add column if not exists province text,
+  add column if not exists autonomous_community text,
+  add column if not exists tax_regime text,
+  add column if not exists climate_zone text;
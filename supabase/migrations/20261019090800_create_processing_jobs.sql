@@ -0,0 +1,80 @@
+-- Durable queue for process-pdfs: one job per processing attempt of an analysis.
+-- queued -> running -> succeeded, back to queued with backoff on failure,
+-- failed when retrying cannot help and dead once max_attempts is used up
+create table if not exists public.processing_jobs (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null references public.pdf_analysis(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  run_after timestamp with time zone not null default now(),
+  locked_by text,
+  lease_expires_at timestamp with time zone,
+  heartbeat_at timestamp with time zone,
+  last_error text,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now()
+);
+
+create index if not exists processing_jobs_due_idx
+  on public.processing_jobs (status, run_after);
+
+create index if not exists processing_jobs_analysis_id_idx
+  on public.processing_jobs (analysis_id);
+
+alter table public.processing_jobs enable row level security;
+
+create policy "Processing jobs are readable by everyone"
+  on public.processing_jobs for select
+  using (true);
+
+-- Claims due jobs for one worker. A running job whose lease has expired lost
+-- its worker, so it is claimed again, or dead-lettered if out of attempts.
+create or replace function public.claim_processing_jobs(
+  p_worker_id text,
+  p_limit integer default 5,
+  p_lease_seconds integer default 300
+)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+begin
+  with abandoned as (
+    update public.processing_jobs
+    set status = 'dead',
+        last_error = coalesce(last_error, 'Worker stopped before finishing'),
+        locked_by = null,
+        lease_expires_at = null,
+        updated_at = now()
+    where status = 'running'
+      and lease_expires_at < now()
+      and attempts >= max_attempts
+    returning analysis_id, last_error
+  )
+  update public.pdf_analysis
+  set status = 'error',
+      error = abandoned.last_error
+  from abandoned
+  where pdf_analysis.id = abandoned.analysis_id;
+
+  return query
+  update public.processing_jobs
+  set status = 'running',
+      attempts = processing_jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  where processing_jobs.id in (
+    select id
+    from public.processing_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and lease_expires_at < now())
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning processing_jobs.*;
+end;
+$$;
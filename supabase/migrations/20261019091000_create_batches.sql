@@ -0,0 +1,149 @@
+-- One row per upload; the aggregates are recomputed from its analyses
+-- whenever one of them finishes, and the batch completes with the last one
+create table if not exists public.batches (
+  id uuid primary key default gen_random_uuid(),
+  status text not null default 'processing'
+    check (status in ('processing', 'completed')),
+  file_count integer not null default 0,
+  processed_count integer not null default 0,
+  needs_review_count integer not null default 0,
+  failed_count integer not null default 0,
+  skipped_count integer not null default 0,
+  total_consumption numeric not null default 0,
+  total_amount numeric not null default 0,
+  average_cost numeric,
+  created_at timestamp with time zone default now(),
+  updated_at timestamp with time zone default now(),
+  completed_at timestamp with time zone
+);
+
+alter table public.batches enable row level security;
+
+create policy "Batches are readable by everyone"
+  on public.batches for select
+  using (true);
+
+create policy "Batches can be created by everyone"
+  on public.batches for insert
+  with check (true);
+
+alter table public.pdf_analysis
+  add column if not exists batch_id uuid references public.batches(id) on delete set null;
+
+create index if not exists pdf_analysis_batch_id_idx
+  on public.pdf_analysis (batch_id);
+
+-- Files whose job failed permanently had nothing to extract and count as
+-- skipped; other errors count as failed
+create or replace function public.refresh_batch_stats(p_batch_id uuid)
+returns public.batches
+language plpgsql
+as $$
+declare
+  result public.batches;
+begin
+  with file_stats as (
+    select
+      a.status,
+      (a.summary_stats ->> 'total_consumption')::numeric as consumption,
+      (a.summary_stats ->> 'total_cost')::numeric as cost,
+      exists (
+        select 1 from public.processing_jobs j
+        where j.analysis_id = a.id and j.status = 'failed'
+      ) as skipped
+    from public.pdf_analysis a
+    where a.batch_id = p_batch_id
+  ),
+  totals as (
+    select
+      count(*) as file_count,
+      count(*) filter (where status in ('completed', 'needs_review')) as processed_count,
+      count(*) filter (where status = 'needs_review') as needs_review_count,
+      count(*) filter (where status = 'error' and not skipped) as failed_count,
+      count(*) filter (where status = 'error' and skipped) as skipped_count,
+      coalesce(sum(consumption) filter (where status in ('completed', 'needs_review')), 0) as total_consumption,
+      coalesce(sum(cost) filter (where status in ('completed', 'needs_review')), 0) as total_amount
+    from file_stats
+  )
+  update public.batches b
+  set file_count = totals.file_count,
+      processed_count = totals.processed_count,
+      needs_review_count = totals.needs_review_count,
+      failed_count = totals.failed_count,
+      skipped_count = totals.skipped_count,
+      total_consumption = totals.total_consumption,
+      total_amount = totals.total_amount,
+      average_cost = round(totals.total_amount / nullif(totals.processed_count, 0), 2),
+      status = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then 'completed'
+        else 'processing'
+      end,
+      completed_at = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then coalesce(b.completed_at, now())
+      end,
+      updated_at = now()
+  from totals
+  where b.id = p_batch_id
+  returning b.* into result;
+
+  return result;
+end;
+$$;
+
+-- Jobs dead-lettered while claiming also finish their file, so refresh the batch
+create or replace function public.claim_processing_jobs(
+  p_worker_id text,
+  p_limit integer default 5,
+  p_lease_seconds integer default 300
+)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+declare
+  finished_batch_id uuid;
+begin
+  for finished_batch_id in
+    with abandoned as (
+      update public.processing_jobs
+      set status = 'dead',
+          last_error = coalesce(last_error, 'Worker stopped before finishing'),
+          locked_by = null,
+          lease_expires_at = null,
+          updated_at = now()
+      where status = 'running'
+        and lease_expires_at < now()
+        and attempts >= max_attempts
+      returning analysis_id, last_error
+    )
+    update public.pdf_analysis
+    set status = 'error',
+        error = abandoned.last_error
+    from abandoned
+    where pdf_analysis.id = abandoned.analysis_id
+    returning pdf_analysis.batch_id
+  loop
+    if finished_batch_id is not null then
+      perform public.refresh_batch_stats(finished_batch_id);
+    end if;
+  end loop;
+
+  return query
+  update public.processing_jobs
+  set status = 'running',
+      attempts = processing_jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  where processing_jobs.id in (
+    select id
+    from public.processing_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and lease_expires_at < now())
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning processing_jobs.*;
+end;
+$$;
@@ -0,0 +1,3 @@
+-- useFileAnalysis follows batch progress over Realtime instead of polling
+alter publication supabase_realtime add table public.pdf_analysis;
+alter publication supabase_realtime add table public.batches;
@@ -0,0 +1,117 @@
+-- Typed failure reasons. Files with nothing to extract end as 'skipped',
+-- files that cannot be read as 'unsupported'; only other failures are 'error'.
+alter table public.pdf_analysis
+  add column if not exists error_code text;
+
+alter table public.processing_jobs
+  add column if not exists last_error_code text;
+
+create or replace function public.refresh_batch_stats(p_batch_id uuid)
+returns public.batches
+language plpgsql
+as $$
+declare
+  result public.batches;
+begin
+  with file_stats as (
+    select
+      a.status,
+      (a.summary_stats ->> 'total_consumption')::numeric as consumption,
+      (a.summary_stats ->> 'total_cost')::numeric as cost
+    from public.pdf_analysis a
+    where a.batch_id = p_batch_id
+  ),
+  totals as (
+    select
+      count(*) as file_count,
+      count(*) filter (where status in ('completed', 'needs_review')) as processed_count,
+      count(*) filter (where status = 'needs_review') as needs_review_count,
+      count(*) filter (where status = 'error') as failed_count,
+      count(*) filter (where status in ('skipped', 'unsupported')) as skipped_count,
+      coalesce(sum(consumption) filter (where status in ('completed', 'needs_review')), 0) as total_consumption,
+      coalesce(sum(cost) filter (where status in ('completed', 'needs_review')), 0) as total_amount
+    from file_stats
+  )
+  update public.batches b
+  set file_count = totals.file_count,
+      processed_count = totals.processed_count,
+      needs_review_count = totals.needs_review_count,
+      failed_count = totals.failed_count,
+      skipped_count = totals.skipped_count,
+      total_consumption = totals.total_consumption,
+      total_amount = totals.total_amount,
+      average_cost = round(totals.total_amount / nullif(totals.processed_count, 0), 2),
+      status = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then 'completed'
+        else 'processing'
+      end,
+      completed_at = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then coalesce(b.completed_at, now())
+      end,
+      updated_at = now()
+  from totals
+  where b.id = p_batch_id
+  returning b.* into result;
+
+  return result;
+end;
+$$;
+
+create or replace function public.claim_processing_jobs(
+  p_worker_id text,
+  p_limit integer default 5,
+  p_lease_seconds integer default 300
+)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+declare
+  finished_batch_id uuid;
+begin
+  for finished_batch_id in
+    with abandoned as (
+      update public.processing_jobs
+      set status = 'dead',
+          last_error = coalesce(last_error, 'Worker stopped before finishing'),
+          last_error_code = coalesce(last_error_code, 'INTERNAL_ERROR'),
+          locked_by = null,
+          lease_expires_at = null,
+          updated_at = now()
+      where status = 'running'
+        and lease_expires_at < now()
+        and attempts >= max_attempts
+      returning analysis_id, last_error, last_error_code
+    )
+    update public.pdf_analysis
+    set status = 'error',
+        error = abandoned.last_error,
+        error_code = abandoned.last_error_code
+    from abandoned
+    where pdf_analysis.id = abandoned.analysis_id
+    returning pdf_analysis.batch_id
+  loop
+    if finished_batch_id is not null then
+      perform public.refresh_batch_stats(finished_batch_id);
+    end if;
+  end loop;
+
+  return query
+  update public.processing_jobs
+  set status = 'running',
+      attempts = processing_jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  where processing_jobs.id in (
+    select id
+    from public.processing_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and lease_expires_at < now())
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning processing_jobs.*;
+end;
+$$;
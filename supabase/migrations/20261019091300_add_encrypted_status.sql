@@ -0,0 +1,52 @@
+-- Password protected PDFs that could not be opened end as 'encrypted'. They
+-- need the user to act, so batches count them as failed rather than skipped.
+create or replace function public.refresh_batch_stats(p_batch_id uuid)
+returns public.batches
+language plpgsql
+as $$
+declare
+  result public.batches;
+begin
+  with file_stats as (
+    select
+      a.status,
+      (a.summary_stats ->> 'total_consumption')::numeric as consumption,
+      (a.summary_stats ->> 'total_cost')::numeric as cost
+    from public.pdf_analysis a
+    where a.batch_id = p_batch_id
+  ),
+  totals as (
+    select
+      count(*) as file_count,
+      count(*) filter (where status in ('completed', 'needs_review')) as processed_count,
+      count(*) filter (where status = 'needs_review') as needs_review_count,
+      count(*) filter (where status in ('error', 'encrypted')) as failed_count,
+      count(*) filter (where status in ('skipped', 'unsupported')) as skipped_count,
+      coalesce(sum(consumption) filter (where status in ('completed', 'needs_review')), 0) as total_consumption,
+      coalesce(sum(cost) filter (where status in ('completed', 'needs_review')), 0) as total_amount
+    from file_stats
+  )
+  update public.batches b
+  set file_count = totals.file_count,
+      processed_count = totals.processed_count,
+      needs_review_count = totals.needs_review_count,
+      failed_count = totals.failed_count,
+      skipped_count = totals.skipped_count,
+      total_consumption = totals.total_consumption,
+      total_amount = totals.total_amount,
+      average_cost = round(totals.total_amount / nullif(totals.processed_count, 0), 2),
+      status = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then 'completed'
+        else 'processing'
+      end,
+      completed_at = case
+        when totals.processed_count + totals.failed_count + totals.skipped_count = totals.file_count then coalesce(b.completed_at, now())
+      end,
+      updated_at = now()
+  from totals
+  where b.id = p_batch_id
+  returning b.* into result;
+
+  return result;
+end;
+$$;
@@ -0,0 +1,18 @@
+-- SHA-256 of the uploaded bytes, computed in the browser before upload
+alter table public.pdf_analysis
+  add column if not exists content_hash text,
+  add column if not exists duplicate_of uuid references public.pdf_analysis(id) on delete set null;
+
+create index if not exists pdf_analysis_content_hash_idx
+  on public.pdf_analysis (content_hash);
+
+-- The same bill scanned, re-downloaded or sent as XML has different bytes
+-- but the same supply point, billing period and issue date. Dates are kept
+-- as extracted, comparator links do not always use ISO dates.
+alter table public.extracted_invoices
+  add column if not exists billing_start_date text,
+  add column if not exists billing_end_date text,
+  add column if not exists invoice_date text;
+
+create index if not exists extracted_invoices_identity_idx
+  on public.extracted_invoices (cups, billing_start_date, billing_end_date, invoice_date);
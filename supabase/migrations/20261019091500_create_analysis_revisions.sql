@@ -0,0 +1,125 @@
+-- Version of the whole extraction pipeline that produced the current result,
+-- e.g. 'core@1.0.0 facturae@1.0.0 cnmc-link@1.4.0 ...'
+alter table public.pdf_analysis
+  add column if not exists pipeline_version text;
+
+create index if not exists pdf_analysis_pipeline_version_idx
+  on public.pdf_analysis (pipeline_version);
+
+-- The result an analysis had before it was reprocessed, one row per rerun
+create table if not exists public.analysis_revisions (
+  id uuid primary key default gen_random_uuid(),
+  analysis_id uuid not null references public.pdf_analysis(id) on delete cascade,
+  pipeline_version text,
+  status text not null,
+  error text,
+  error_code text,
+  extractor_name text,
+  extractor_version text,
+  document_type text,
+  invoice_count integer,
+  summary_stats jsonb,
+  field_provenance jsonb,
+  validation_results jsonb,
+  -- The extracted_invoices rows, which the rerun replaces
+  invoices jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone default now()
+);
+
+create index if not exists analysis_revisions_analysis_id_idx
+  on public.analysis_revisions (analysis_id);
+
+alter table public.analysis_revisions enable row level security;
+
+create policy "Analysis revisions are readable by everyone"
+  on public.analysis_revisions for select
+  using (true);
+
+-- Snapshots the current result of each analysis into analysis_revisions and
+-- queues it again. With no ids every analysis is a candidate; analyses
+-- already at p_skip_version and files still being processed are left alone.
+-- Returns the ids that were queued.
+create or replace function public.reprocess_analyses(
+  p_analysis_ids uuid[] default null,
+  p_skip_version text default null
+)
+returns setof uuid
+language plpgsql
+as $$
+declare
+  target_ids uuid[];
+  affected_batch_id uuid;
+begin
+  select array_agg(id) into target_ids
+  from (
+    select a.id
+    from public.pdf_analysis a
+    where a.status in ('completed', 'needs_review', 'error', 'skipped', 'unsupported', 'encrypted')
+      and (p_analysis_ids is null or a.id = any(p_analysis_ids))
+      and (p_skip_version is null or a.pipeline_version is distinct from p_skip_version)
+    for update skip locked
+  ) candidates;
+
+  if target_ids is null then
+    return;
+  end if;
+
+  insert into public.analysis_revisions (
+    analysis_id, pipeline_version, status, error, error_code, extractor_name, extractor_version,
+    document_type, invoice_count, summary_stats, field_provenance, validation_results, invoices
+  )
+  select
+    a.id, a.pipeline_version, a.status, a.error, a.error_code, a.extractor_name, a.extractor_version,
+    a.document_type, a.invoice_count, a.summary_stats, a.field_provenance, a.validation_results,
+    coalesce((
+      select jsonb_agg(to_jsonb(i) - 'analysis_id' order by i.invoice_index)
+      from public.extracted_invoices i
+      where i.analysis_id = a.id
+    ), '[]'::jsonb)
+  from public.pdf_analysis a
+  where a.id = any(target_ids);
+
+  update public.pdf_analysis
+  set status = 'pending',
+      error = null,
+      error_code = null
+  where id = any(target_ids);
+
+  insert into public.processing_jobs (analysis_id)
+  select unnest(target_ids);
+
+  -- Reopen the batches so their aggregates and export are rebuilt
+  for affected_batch_id in
+    select distinct batch_id
+    from public.pdf_analysis
+    where id = any(target_ids) and batch_id is not null
+  loop
+    perform public.refresh_batch_stats(affected_batch_id);
+  end loop;
+
+  return query select unnest(target_ids);
+end;
+$$;
+
+-- An admin action, only for the service role
+revoke execute on function public.reprocess_analyses(uuid[], text) from public, anon, authenticated;
+
+-- Each previous result next to the current one
+create or replace view public.analysis_revision_diffs as
+select
+  r.id as revision_id,
+  r.analysis_id,
+  a.file_name,
+  r.created_at as reprocessed_at,
+  r.pipeline_version as previous_pipeline_version,
+  a.pipeline_version as current_pipeline_version,
+  r.status as previous_status,
+  a.status as current_status,
+  r.invoice_count as previous_invoice_count,
+  a.invoice_count as current_invoice_count,
+  r.summary_stats as previous_summary_stats,
+  a.summary_stats as current_summary_stats,
+  r.status is distinct from a.status
+    or r.summary_stats is distinct from a.summary_stats as changed
+from public.analysis_revisions r
+join public.pdf_analysis a on a.id = r.analysis_id;
@@ -0,0 +1,23 @@
+-- The complete query string of each comparator link, not just the params
+-- mapped to result fields. pdf_analysis holds one map per invoice, null for
+-- invoices that were not read from a link.
+alter table public.pdf_analysis
+  add column if not exists comparator_params jsonb;
+
+alter table public.extracted_invoices
+  add column if not exists comparator_params jsonb,
+  add column if not exists unknown_comparator_params text[];
+
+-- New parameters seen: params CNMC sends that process-pdfs has no mapping for
+create or replace view public.new_comparator_params as
+select
+  p.param,
+  i.document_type,
+  count(*) as invoice_count,
+  count(distinct i.analysis_id) as analysis_count,
+  min(i.created_at) as first_seen,
+  max(i.created_at) as last_seen,
+  (array_agg(i.comparator_params ->> p.param order by i.created_at desc))[1] as example_value
+from public.extracted_invoices i
+cross join lateral unnest(i.unknown_comparator_params) as p(param)
+group by p.param, i.document_type;
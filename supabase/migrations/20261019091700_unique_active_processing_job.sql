@@ -0,0 +1,98 @@
+-- At most one queued or running job per analysis, so re-submitting or
+-- reprocessing a file while it still has a job does not process it twice.
+-- Existing duplicates are closed, keeping the oldest job of each analysis.
+update public.processing_jobs j
+set status = 'failed',
+    last_error = 'Duplicate of an earlier job for the same analysis',
+    last_error_code = 'INTERNAL_ERROR',
+    locked_by = null,
+    lease_expires_at = null,
+    updated_at = now()
+where j.status in ('queued', 'running')
+  and exists (
+    select 1
+    from public.processing_jobs earlier
+    where earlier.analysis_id = j.analysis_id
+      and earlier.status in ('queued', 'running')
+      and (earlier.created_at, earlier.id) < (j.created_at, j.id)
+  );
+
+create unique index if not exists processing_jobs_active_analysis_idx
+  on public.processing_jobs (analysis_id)
+  where status in ('queued', 'running');
+
+-- Queues a job for each analysis that has none queued or running. Returns the
+-- analysis ids that were queued.
+create or replace function public.enqueue_processing_jobs(p_analysis_ids uuid[])
+returns setof uuid
+language sql
+as $$
+  insert into public.processing_jobs (analysis_id)
+  select distinct unnest(p_analysis_ids)
+  on conflict (analysis_id) where status in ('queued', 'running') do nothing
+  returning analysis_id;
+$$;
+
+create or replace function public.reprocess_analyses(
+  p_analysis_ids uuid[] default null,
+  p_skip_version text default null
+)
+returns setof uuid
+language plpgsql
+as $$
+declare
+  target_ids uuid[];
+  affected_batch_id uuid;
+begin
+  select array_agg(id) into target_ids
+  from (
+    select a.id
+    from public.pdf_analysis a
+    where a.status in ('completed', 'needs_review', 'error', 'skipped', 'unsupported', 'encrypted')
+      and (p_analysis_ids is null or a.id = any(p_analysis_ids))
+      and (p_skip_version is null or a.pipeline_version is distinct from p_skip_version)
+    for update skip locked
+  ) candidates;
+
+  if target_ids is null then
+    return;
+  end if;
+
+  insert into public.analysis_revisions (
+    analysis_id, pipeline_version, status, error, error_code, extractor_name, extractor_version,
+    document_type, invoice_count, summary_stats, field_provenance, validation_results, invoices
+  )
+  select
+    a.id, a.pipeline_version, a.status, a.error, a.error_code, a.extractor_name, a.extractor_version,
+    a.document_type, a.invoice_count, a.summary_stats, a.field_provenance, a.validation_results,
+    coalesce((
+      select jsonb_agg(to_jsonb(i) - 'analysis_id' order by i.invoice_index)
+      from public.extracted_invoices i
+      where i.analysis_id = a.id
+    ), '[]'::jsonb)
+  from public.pdf_analysis a
+  where a.id = any(target_ids);
+
+  update public.pdf_analysis
+  set status = 'pending',
+      error = null,
+      error_code = null
+  where id = any(target_ids);
+
+  -- An analysis that somehow still has a job keeps it rather than getting a second
+  insert into public.processing_jobs (analysis_id)
+  select unnest(target_ids)
+  on conflict (analysis_id) where status in ('queued', 'running') do nothing;
+
+  -- Reopen the batches so their aggregates and export are rebuilt
+  for affected_batch_id in
+    select distinct batch_id
+    from public.pdf_analysis
+    where id = any(target_ids) and batch_id is not null
+  loop
+    perform public.refresh_batch_stats(affected_batch_id);
+  end loop;
+
+  return query select unnest(target_ids);
+end;
+$$;
@@ -0,0 +1,33 @@
+-- A running job whose lease has expired lost its worker, so it is claimed
+-- again whatever its attempts. Jobs already out of attempts are dead-lettered
+-- by the worker that claims them, which refreshes and exports their batch the
+-- same way as for any other failure.
+create or replace function public.claim_processing_jobs(
+  p_worker_id text,
+  p_limit integer default 5,
+  p_lease_seconds integer default 300
+)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.processing_jobs
+  set status = 'running',
+      attempts = processing_jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  where processing_jobs.id in (
+    select id
+    from public.processing_jobs
+    where (status = 'queued' and run_after <= now())
+       or (status = 'running' and lease_expires_at < now())
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning processing_jobs.*;
+end;
+$$;
@@ -0,0 +1,74 @@
+-- A PDF password only lives in the memory of the worker it was sent to, so
+-- the jobs it came with are reserved for that worker. Other workers leave
+-- them alone until the reservation lapses.
+alter table public.processing_jobs
+  add column if not exists reserved_by text,
+  add column if not exists reserved_until timestamp with time zone;
+
+drop function if exists public.enqueue_processing_jobs(uuid[]);
+
+-- Queues a job for each analysis that has none queued or running, and with
+-- p_reserved_by reserves the queued jobs of those analyses for that worker.
+-- Returns the analysis ids that were queued.
+create or replace function public.enqueue_processing_jobs(
+  p_analysis_ids uuid[],
+  p_reserved_by text default null,
+  p_reserved_seconds integer default 0
+)
+returns setof uuid
+language plpgsql
+as $$
+begin
+  return query
+  insert into public.processing_jobs (analysis_id)
+  select distinct unnest(p_analysis_ids)
+  on conflict (analysis_id) where status in ('queued', 'running') do nothing
+  returning processing_jobs.analysis_id;
+
+  if p_reserved_by is not null then
+    update public.processing_jobs
+    set reserved_by = p_reserved_by,
+        reserved_until = now() + make_interval(secs => p_reserved_seconds),
+        updated_at = now()
+    where analysis_id = any(p_analysis_ids)
+      and status = 'queued';
+  end if;
+end;
+$$;
+
+drop function if exists public.claim_processing_jobs(text, integer, integer);
+
+-- Claims due jobs for one worker, skipping jobs reserved for another. With
+-- p_analysis_ids only the jobs of those analyses are claimed.
+create or replace function public.claim_processing_jobs(
+  p_worker_id text,
+  p_limit integer default 5,
+  p_lease_seconds integer default 300,
+  p_analysis_ids uuid[] default null
+)
+returns setof public.processing_jobs
+language plpgsql
+as $$
+begin
+  return query
+  update public.processing_jobs
+  set status = 'running',
+      attempts = processing_jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  where processing_jobs.id in (
+    select id
+    from public.processing_jobs
+    where ((status = 'queued' and run_after <= now())
+        or (status = 'running' and lease_expires_at < now()))
+      and (reserved_by is null or reserved_by = p_worker_id or reserved_until < now())
+      and (p_analysis_ids is null or analysis_id = any(p_analysis_ids))
+    order by run_after
+    limit p_limit
+    for update skip locked
+  )
+  returning processing_jobs.*;
+end;
+$$;
@@ -0,0 +1,42 @@
+-- Duplicate detection compares the identity columns of extracted_invoices
+-- as they are stored, so process-pdfs now stores them in one form: ISO
+-- dates and the 20 character CUPS, without the measuring point suffix that
+-- some bills print (e.g. 'ES0021000000000000AA0F'). The values as extracted
+-- stay in results. This brings the rows stored before into the same form.
+create function pg_temp.to_iso_date(value text)
+returns text
+language plpgsql
+as $$
+declare
+  parts text[];
+begin
+  parts := regexp_match(btrim(value), '^(\d{4})-(\d{1,2})-(\d{1,2})(?:$|[T ])');
+  if parts is null then
+    parts := regexp_match(btrim(value), '^(\d{4})(\d{2})(\d{2})$');
+  end if;
+  if parts is null then
+    parts := regexp_match(btrim(value), '^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$');
+    if parts is not null then
+      parts := array[case when length(parts[3]) = 2 then '20' || parts[3] else parts[3] end, parts[2], parts[1]];
+    end if;
+  end if;
+  if parts is null then
+    return null;
+  end if;
+
+  return to_char(make_date(parts[1]::integer, parts[2]::integer, parts[3]::integer), 'YYYY-MM-DD');
+exception
+  when datetime_field_overflow or invalid_datetime_format then
+    return null;
+end;
+$$;
+
+update public.extracted_invoices
+set cups = case
+      when upper(regexp_replace(cups, '[\s-]', '', 'g')) ~ '^ES\d{16}[A-Z]{2}(\d[FPCRXYZ])?$'
+        then left(upper(regexp_replace(cups, '[\s-]', '', 'g')), 20)
+      else upper(regexp_replace(cups, '[\s-]', '', 'g'))
+    end,
+    billing_start_date = pg_temp.to_iso_date(billing_start_date),
+    billing_end_date = pg_temp.to_iso_date(billing_end_date),
+    invoice_date = pg_temp.to_iso_date(invoice_date);